@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { querySpringPage } from "../spring-query";
+
+/**
+ * Read-only brand catalogue, the related entity of the gifts' brandId
+ */
+const brands = [
+  "Acme",
+  "Bluebird",
+  "Cedar & Co",
+  "Daybreak",
+  "Evergreen",
+  "Foxglove",
+  "Granite",
+  "Harbor",
+  "Ivory Lane",
+  "Juniper",
+  "Kestrel",
+  "Lumen",
+  "Meridian",
+  "Northwind",
+  "Orchard",
+  "Pinnacle",
+].map((name, i) => ({ id: i + 1, name, code: name.slice(0, 3).toUpperCase() }));
+
+export async function GET(request: NextRequest) {
+  return NextResponse.json(querySpringPage(brands, request.nextUrl.searchParams));
+}
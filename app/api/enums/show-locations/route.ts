@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+
+/**
+ * Display locations of a gift, served like a backend-managed enum
+ */
+const showLocations = [
+  { value: "NONE", label: "None", color: "gray" },
+  { value: "PRODUCT_DETAIL", label: "Product Detail", color: "blue" },
+  { value: "PRODUCT_DETAIL_WITH_TAG", label: "Product Detail (Tagged)", color: "blue" },
+  { value: "BASKET", label: "Basket", color: "green" },
+  { value: "BASKET_AND_PRODUCT_DETAIL", label: "Basket and Product Detail", color: "purple" },
+  {
+    value: "BASKET_AND_PRODUCT_DETAIL_WITH_TAG",
+    label: "Basket and Product Detail (Tagged)",
+    color: "purple",
+  },
+  { value: "BASKET_IF_APPLICABLE", label: "Show in Basket if Applicable", color: "yellow" },
+];
+
+export async function GET() {
+  return NextResponse.json(showLocations);
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorBody, findGiftIndex, gifts, validateGift, validationErrorBody } from "../data";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+function notFound(request: NextRequest, id: string) {
+  return NextResponse.json(
+    errorBody(404, "Not Found", `Gift ${id} not found`, request.nextUrl.pathname),
+    { status: 404 }
+  );
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const index = findGiftIndex(params.id);
+  if (index === -1) {
+    return notFound(request, params.id);
+  }
+  return NextResponse.json(gifts[index]);
+}
+
+async function update(request: NextRequest, { params }: RouteContext, replace: boolean) {
+  const index = findGiftIndex(params.id);
+  if (index === -1) {
+    return notFound(request, params.id);
+  }
+
+  const body = await request.json();
+  const current = gifts[index];
+  const updated = replace
+    ? { ...body, id: current.id, createDate: current.createDate }
+    : { ...current, ...body, id: current.id };
+
+  const errors = validateGift(updated, current.id);
+  if (errors.length > 0) {
+    return NextResponse.json(validationErrorBody(errors, request.nextUrl.pathname), {
+      status: 400,
+    });
+  }
+
+  gifts[index] = updated;
+
+  return NextResponse.json(gifts[index]);
+}
+
+export async function PUT(request: NextRequest, context: RouteContext) {
+  return update(request, context, true);
+}
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  return update(request, context, false);
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const index = findGiftIndex(params.id);
+  if (index === -1) {
+    return notFound(request, params.id);
+  }
+  gifts.splice(index, 1);
+  return new NextResponse(null, { status: 204 });
+}
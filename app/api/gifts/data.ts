@@ -0,0 +1,95 @@
+/**
+ * In-memory gift store shared by the mock /api/gifts routes.
+ * Mutations live until the dev server restarts.
+ * Kept on globalThis so the list and item routes share it in dev mode.
+ */
+
+const createGifts = (): any[] => Array.from({ length: 100 }, (_, i) => ({
+  id: i + 1,
+  discountCode: `GIFT${String(i + 1).padStart(3, "0")}`,
+  showName: `Gift Card ${i + 1}`,
+  reason: i % 3 === 0 ? "Bulk Creation" : i % 3 === 1 ? "Manual" : "Import",
+  imageUrl: `https://picsum.photos/200?random=${i}`,
+  description: `<p>This is a sample gift card description for <strong>Gift Card ${i + 1}</strong></p>`,
+  codeType: ["NORMAL", "SECOND_ITEM_PERCENTAGE", "ADD_X_ITEM_PERCENTAGE"][i % 3],
+  minimumBasketItemCount: i % 2 === 0 ? 2 : 5,
+  beginDate: Math.floor(Date.now() / 1000) - (i * 86400),
+  endDate: Math.floor(Date.now() / 1000) + ((100 - i) * 86400),
+  type: i % 2 === 0 ? "1" : "2",
+  showLocation: ["NONE", "PRODUCT_DETAIL", "BASKET", "BASKET_AND_PRODUCT_DETAIL"][i % 4],
+  showCountry: ["TURKEY", "UNITED_KINGDOM", "NON_TURKEY", "ALL"][i % 4],
+  brandId: (i % 12) + 1,
+  active: i % 3 !== 0,
+  createDate: Math.floor(Date.now() / 1000) - (i * 172800),
+}));
+
+const globalStore = globalThis as typeof globalThis & {
+  __mockGifts?: any[];
+};
+
+export const gifts = (globalStore.__mockGifts ??= createGifts());
+
+export function findGiftIndex(id: string): number {
+  return gifts.findIndex((gift) => gift.id.toString() === id);
+}
+
+export function nextGiftId(): number {
+  return gifts.reduce((max, gift) => Math.max(max, gift.id), 0) + 1;
+}
+
+/**
+ * Spring-style error body (DefaultErrorAttributes)
+ */
+export interface FieldError {
+  field: string;
+  defaultMessage: string;
+}
+
+export function errorBody(
+  status: number,
+  error: string,
+  message: string,
+  path: string,
+  errors?: FieldError[]
+) {
+  return {
+    timestamp: new Date().toISOString(),
+    status,
+    error,
+    message,
+    path,
+    ...(errors && { errors }),
+  };
+}
+
+/**
+ * Bean-validation style checks of a gift, like a @Valid request body on the Spring side
+ */
+export function validateGift(gift: any, id?: number): FieldError[] {
+  const errors: FieldError[] = [];
+  if (!gift.discountCode) {
+    errors.push({ field: "discountCode", defaultMessage: "must not be blank" });
+  } else if (
+    gifts.some(
+      (g) =>
+        g.id !== id &&
+        String(g.discountCode).toLowerCase() === String(gift.discountCode).toLowerCase()
+    )
+  ) {
+    errors.push({ field: "discountCode", defaultMessage: "is already used by another gift" });
+  }
+  if (gift.beginDate && gift.endDate && gift.endDate <= gift.beginDate) {
+    errors.push({ field: "endDate", defaultMessage: "must be after beginDate" });
+  }
+  return errors;
+}
+
+export function validationErrorBody(errors: FieldError[], path: string) {
+  return errorBody(
+    400,
+    "Bad Request",
+    `Validation failed for object='gift'. Error count: ${errors.length}`,
+    path,
+    errors
+  );
+}
@@ -0,0 +1,189 @@
+/**
+ * Shared evaluation of Spring Dynamic Query requests for the mock API routes:
+ * criteria (OR / PARENTHES groups included), multi-column sorting, projection and paging.
+ */
+
+import { Criteria, SpringPage } from "@/lib/types/field.types";
+import { parseQueryString } from "@/lib/utils/query-builder";
+import { getParenthesCriteria } from "@/lib/utils/criteria-tree";
+
+/**
+ * Compare an item value with a criteria value: numbers numerically, anything else
+ * (ISO dates, text) as strings, the same order the sorting below uses
+ */
+function compareTo(itemValue: any, value: string): number {
+  if (typeof itemValue === "number") {
+    return itemValue - parseFloat(value);
+  }
+  const text = String(itemValue);
+  return text === value ? 0 : text > value ? 1 : -1;
+}
+
+// Substring matches of the mock have always ignored case, the filters' default relies on it
+const PATTERN_OPERATIONS = ["CONTAIN", "DOES_NOT_CONTAIN", "START_WITH", "END_WITH"];
+
+/**
+ * Evaluate a single criteria against an item.
+ * Substring operations ignore case; EQUAL, NOT_EQUAL, IN and NOT_IN are case-sensitive
+ * unless the *_IGNORE_CASE variant is used.
+ */
+function matchesSingle(item: any, { key, operation, values }: Criteria): boolean {
+  const itemValue = item[key];
+  const isNull = itemValue === null || itemValue === undefined;
+  const baseOperation = operation.replace("_IGNORE_CASE", "");
+  const ignoreCase =
+    operation.endsWith("_IGNORE_CASE") || PATTERN_OPERATIONS.includes(baseOperation);
+  const normalize = (value: any) =>
+    ignoreCase ? String(value).toLowerCase() : String(value);
+  const text = isNull ? "" : normalize(itemValue);
+  const value = values[0] !== undefined ? normalize(values[0]) : "";
+
+  switch (baseOperation) {
+    case "CONTAIN":
+      return !isNull && text.includes(value);
+    case "DOES_NOT_CONTAIN":
+      return !text.includes(value);
+    case "START_WITH":
+      return !isNull && text.startsWith(value);
+    case "END_WITH":
+      return !isNull && text.endsWith(value);
+    case "EQUAL":
+    case "IN":
+      return !isNull && values.some((v) => text === normalize(v));
+    case "NOT_EQUAL":
+    case "NOT_IN":
+      return values.every((v) => text !== normalize(v));
+    case "GREATER_THAN":
+      return !isNull && compareTo(itemValue, values[0]) > 0;
+    case "GREATER_THAN_OR_EQUAL":
+      return !isNull && compareTo(itemValue, values[0]) >= 0;
+    case "LESS_THAN":
+      return !isNull && compareTo(itemValue, values[0]) < 0;
+    case "LESS_THAN_OR_EQUAL":
+      return !isNull && compareTo(itemValue, values[0]) <= 0;
+    case "BETWEEN":
+      return (
+        !isNull && compareTo(itemValue, values[0]) >= 0 && compareTo(itemValue, values[1]) <= 0
+      );
+    case "SPECIFIED":
+      return values[0] === "false" ? isNull : !isNull;
+    case "IS_NULL":
+      return isNull;
+    case "IS_NOT_NULL":
+      return !isNull;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Evaluate a flat criteria list: ANDed segments split by OR, PARENTHES evaluated recursively
+ */
+function matchesCriteria(item: any, criteria: Criteria[]): boolean {
+  const segments: Criteria[][] = [[]];
+  criteria.forEach((c) => {
+    if (c.operation === "OR") {
+      segments.push([]);
+    } else {
+      segments[segments.length - 1].push(c);
+    }
+  });
+
+  return segments.some((segment) =>
+    segment.every((c) =>
+      c.operation === "PARENTHES"
+        ? matchesCriteria(item, getParenthesCriteria(c))
+        : matchesSingle(item, c)
+    )
+  );
+}
+
+/**
+ * Keep only the selected paths, stored under their selectAs alias (default: the path itself)
+ */
+function project(item: any, select: string[], selectAs: string[] = []): any {
+  const result: any = {};
+  select.forEach((path, idx) => {
+    const value = path
+      .split(".")
+      .reduce((current, key) => (current == null ? undefined : current[key]), item);
+    const aliasKeys = (selectAs[idx] || path).split(".");
+    let target = result;
+    aliasKeys.slice(0, -1).forEach((key) => {
+      target[key] = target[key] ?? {};
+      target = target[key];
+    });
+    target[aliasKeys[aliasKeys.length - 1]] = value;
+  });
+  return result;
+}
+
+/**
+ * Filter, sort, project and page a collection like a Spring Dynamic Query endpoint
+ */
+export function querySpringPage<T>(items: T[], searchParams: URLSearchParams): SpringPage<any> {
+  // Parse pagination
+  const page = parseInt(searchParams.get("page") || "0", 10);
+  const pageSize = parseInt(searchParams.get("pageSize") || "20", 10);
+
+  // Filter with the same criteria model as the backend (OR / PARENTHES groups included)
+  const query = parseQueryString(searchParams.toString());
+  const filteredData = items.filter((item) => matchesCriteria(item, query.criteria));
+
+  // Parse sorting (orderBy0..N in priority order)
+  const { orderBy = [], orderByDirection = [] } = query;
+  const isSorted = orderBy.length > 0;
+
+  if (isSorted) {
+    filteredData.sort((a: any, b: any) => {
+      for (let idx = 0; idx < orderBy.length; idx++) {
+        const aVal = a[orderBy[idx]];
+        const bVal = b[orderBy[idx]];
+        if (aVal === bVal) continue;
+
+        const comparison = aVal > bVal ? 1 : -1;
+        return orderByDirection[idx] === "asc" ? comparison : -comparison;
+      }
+      return 0;
+    });
+  }
+
+  // Apply pagination
+  const start = page * pageSize;
+  const end = start + pageSize;
+  const paginatedData = filteredData
+    .slice(start, end)
+    .map((item) => (query.select ? project(item, query.select, query.selectAs) : item));
+
+  // Build Spring Page response
+  const response: SpringPage<any> = {
+    content: paginatedData,
+    pageable: {
+      pageNumber: page,
+      pageSize: pageSize,
+      sort: {
+        sorted: isSorted,
+        unsorted: !isSorted,
+        empty: !isSorted,
+      },
+      offset: start,
+      paged: true,
+      unpaged: false,
+    },
+    totalPages: Math.ceil(filteredData.length / pageSize),
+    totalElements: filteredData.length,
+    last: end >= filteredData.length,
+    size: pageSize,
+    number: page,
+    sort: {
+      sorted: isSorted,
+      unsorted: !isSorted,
+      empty: !isSorted,
+    },
+    numberOfElements: paginatedData.length,
+    first: page === 0,
+    empty: paginatedData.length === 0,
+  };
+
+  return response;
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorBody } from "../../gifts/data";
+import { isAllowedImageType, uploads } from "../store";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const file = uploads.get(params.id);
+  if (!file) {
+    return NextResponse.json(
+      errorBody(404, "Not Found", `Upload ${params.id} not found`, request.nextUrl.pathname),
+      { status: 404 }
+    );
+  }
+  const headers: Record<string, string> = {
+    "Content-Type": file.type || "application/octet-stream",
+    "Cache-Control": "public, max-age=31536000, immutable",
+    "X-Content-Type-Options": "nosniff",
+  };
+  // Anything but an accepted image is downloaded, never rendered on this origin
+  if (!isAllowedImageType(file.type)) {
+    headers["Content-Disposition"] = `attachment; filename="${encodeURIComponent(file.name)}"`;
+  }
+  return new NextResponse(file.data, { headers });
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { errorBody } from "../gifts/data";
+import { isAllowedImageType, uploads } from "./store";
+
+const MAX_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Mock upload endpoint: accepts a raster image in multipart "file" and returns { url }
+ */
+export async function POST(request: NextRequest) {
+  const formData = await request.formData();
+  const file = formData.get("file");
+
+  if (!file || typeof file === "string") {
+    return NextResponse.json(
+      errorBody(400, "Bad Request", "Missing multipart field 'file'", request.nextUrl.pathname),
+      { status: 400 }
+    );
+  }
+  if (!isAllowedImageType(file.type)) {
+    return NextResponse.json(
+      errorBody(
+        415,
+        "Unsupported Media Type",
+        `Only PNG, JPEG, GIF, WebP and AVIF images are accepted, got '${file.type || "unknown"}'`,
+        request.nextUrl.pathname
+      ),
+      { status: 415 }
+    );
+  }
+  if (file.size > MAX_SIZE) {
+    return NextResponse.json(
+      errorBody(413, "Payload Too Large", "File exceeds 5 MB", request.nextUrl.pathname),
+      { status: 413 }
+    );
+  }
+
+  const id = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+  uploads.set(id, { data: await file.arrayBuffer(), type: file.type, name: file.name });
+
+  return NextResponse.json({ url: `/api/uploads/${id}`, name: file.name, size: file.size }, { status: 201 });
+}
@@ -0,0 +1,24 @@
+/**
+ * In-memory file store of the mock upload API (lost on server restart).
+ * Kept on globalThis so the upload and download routes share it in dev mode.
+ */
+
+export interface StoredFile {
+  data: ArrayBuffer;
+  type: string;
+  name: string;
+}
+
+const globalStore = globalThis as typeof globalThis & {
+  __mockUploads?: Map<string, StoredFile>;
+};
+
+export const uploads = (globalStore.__mockUploads ??= new Map<string, StoredFile>());
+
+/**
+ * Raster image types the mock accepts. SVG is left out: it can carry scripts and would
+ * run on this origin when opened.
+ */
+export const IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp", "image/avif"];
+
+export const isAllowedImageType = (type: string) => IMAGE_TYPES.includes(type.toLowerCase());
@@ -2,7 +2,13 @@
 
 import React from "react";
 import { DynamicQueryTable } from "@/components/dynamic-query-table";
-import { Field } from "@/lib/types/field.types";
+import { CriteriaOperation, Field } from "@/lib/types/field.types";
+import { createXhrUploadHandler } from "@/lib/utils/upload";
+
+// Images go to the in-memory mock upload route
+const uploadHandlers = {
+  "gift-card-image": createXhrUploadHandler("/api/uploads"),
+};
 
 export default function ExamplePage() {
   const fields: Field[] = [
@@ -25,7 +31,16 @@ export default function ExamplePage() {
       sortable: true,
       showInDetail: true,
       editable: true,
+      defaultOperation: CriteriaOperation.CONTAIN_IGNORE_CASE,
       placeholder: "Enter discount code...",
+      validation: {
+        required: "Discount code is required",
+        maxLength: 32,
+        pattern: {
+          value: /^[A-Z0-9_-]+$/,
+          message: "Use uppercase letters, digits, - and _",
+        },
+      },
     },
     {
       name: "showName",
@@ -36,6 +51,7 @@ export default function ExamplePage() {
       sortable: true,
       showInDetail: true,
       editable: true,
+      defaultOperation: CriteriaOperation.CONTAIN_IGNORE_CASE,
     },
     {
       name: "reason",
@@ -46,6 +62,7 @@ export default function ExamplePage() {
       sortable: true,
       showInDetail: true,
       editable: false,
+      defaultOperation: CriteriaOperation.CONTAIN_IGNORE_CASE,
     },
     {
       name: "imageUrl",
@@ -57,6 +74,8 @@ export default function ExamplePage() {
       showInDetail: true,
       editable: true,
       uploadConfig: "gift-card-image",
+      maxSize: 2 * 1024 * 1024,
+      allowedTypes: ["image/png", "image/jpeg", "image/webp"],
     },
     {
       name: "description",
@@ -67,6 +86,9 @@ export default function ExamplePage() {
       sortable: false,
       showInDetail: true,
       editable: true,
+      editorConfig: {
+        toolbar: ["bold", "italic", "underline", "bulletList", "orderedList", "link", "clear"],
+      },
     },
     {
       name: "codeType",
@@ -77,6 +99,23 @@ export default function ExamplePage() {
         SECOND_ITEM_PERCENTAGE: "Second Item % Discount",
         ADD_X_ITEM_PERCENTAGE: "X Items % Discount",
       },
+      enumColors: {
+        NORMAL: "gray",
+        SECOND_ITEM_PERCENTAGE: "blue",
+        ADD_X_ITEM_PERCENTAGE: "green",
+      },
+      visible: true,
+      filterable: true,
+      sortable: true,
+      showInDetail: true,
+      editable: true,
+    },
+    {
+      name: "brandId",
+      title: "Brand",
+      type: "Relation",
+      relationSource: "/api/brands",
+      displayPath: "name",
       visible: true,
       filterable: true,
       sortable: true,
@@ -92,6 +131,7 @@ export default function ExamplePage() {
       sortable: true,
       showInDetail: true,
       editable: true,
+      validation: { min: 0, max: 100 },
     },
     {
       name: "beginDate",
@@ -112,6 +152,10 @@ export default function ExamplePage() {
       sortable: true,
       showInDetail: true,
       editable: true,
+      validation: {
+        crossField: (value, record) =>
+          !record.beginDate || value > record.beginDate || "End date must be after the start date",
+      },
     },
     {
       name: "type",
@@ -131,15 +175,8 @@ export default function ExamplePage() {
       name: "showLocation",
       title: "Display Location",
       type: "Enum",
-      enumValues: {
-        NONE: "None",
-        PRODUCT_DETAIL: "Product Detail",
-        PRODUCT_DETAIL_WITH_TAG: "Product Detail (Tagged)",
-        BASKET: "Basket",
-        BASKET_AND_PRODUCT_DETAIL: "Basket and Product Detail",
-        BASKET_AND_PRODUCT_DETAIL_WITH_TAG: "Basket and Product Detail (Tagged)",
-        BASKET_IF_APPLICABLE: "Show in Basket if Applicable",
-      },
+      // Loaded from the backend, labels and colours included
+      enumValues: "/api/enums/show-locations",
       visible: true,
       filterable: true,
       sortable: true,
@@ -202,10 +239,17 @@ export default function ExamplePage() {
         enableSelection={true}
         enableCreate={true}
         enableEdit={true}
+        enableDelete={true}
+        enableProjection={true}
+        tableId="gifts"
+        enableSavedViews={true}
+        enableExport={true}
+        inlineEdit={true}
+        uploadHandlers={uploadHandlers}
         pageSize={20}
         defaultSortField="id"
-        onRowSelect={(rows) => {
-          console.log("Selected rows:", rows);
+        onRowSelect={(selection) => {
+          console.log("Selection:", selection);
         }}
         onDataChange={(data) => {
           console.log("Data changed:", data);
@@ -217,7 +261,7 @@ export default function ExamplePage() {
         <ul className="list-disc list-inside space-y-1 text-sm">
           <li>URL-synced filtering, sorting, and pagination</li>
           <li>Spring-compatible query format (key0, operation0, values0)</li>
-          <li>Multiple field types (String, Integer, Boolean, Enum, Date, Image, RichText)</li>
+          <li>Multiple field types (String, Integer, Boolean, Enum, Date, Image, RichText, Relation)</li>
           <li>Collapsible filter panel with pin functionality</li>
           <li>Column visibility toggle</li>
           <li>Row selection</li>
@@ -231,7 +275,7 @@ export default function ExamplePage() {
         <h3 className="font-semibold text-amber-900 mb-2">Note:</h3>
         <p className="text-sm text-amber-800">
           This example uses <code className="bg-amber-100 px-1 rounded">/api/gifts</code> as the
-          API endpoint. You'll need to create this API route or use a real backend with Spring Dynamic
+          API endpoint. You&apos;ll need to create this API route or use a real backend with Spring Dynamic
           Query support to see live data. The component will work with any endpoint that returns data
           in Spring Page format.
         </p>
@@ -0,0 +1,471 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { Plus, X, ListPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils/cn";
+import {
+  Criteria,
+  CriteriaGroup,
+  CriteriaLogic,
+  CriteriaNode,
+  CriteriaOperation,
+  Field,
+} from "@/lib/types/field.types";
+import { QueryBuilder } from "@/lib/utils/query-builder";
+import {
+  OPERATION_LABELS,
+  getAllowedOperations,
+  getDefaultOperation,
+  getOperationArity,
+} from "@/lib/utils/operations";
+import {
+  criteriaToTree,
+  isCriteriaGroup,
+  treeToCriteria,
+} from "@/lib/utils/criteria-tree";
+import { format } from "date-fns";
+import { EnumCheckboxList, ListInput, RangeInput } from "./criteria-inputs";
+import { RelationSelect } from "./relation-select";
+import { EnumSelect } from "./enum-select";
+
+interface AdvancedFilterProps {
+  fields: Field[];
+  queryBuilder: QueryBuilder;
+  onFilterChange: () => void;
+  /** Delay (ms) before typed values are applied, 0 applies every keystroke */
+  textDebounceMs: number;
+}
+
+interface TreeUpdateOptions {
+  /** Typed value: apply it once typing pauses */
+  debounce?: boolean;
+}
+
+/**
+ * Visual AND/OR query builder.
+ * Keeps the tree (including incomplete conditions) locally and writes the
+ * serialized criteria to the query builder whenever the complete part changes
+ * (typed values once typing pauses).
+ */
+export function AdvancedFilter({
+  fields,
+  queryBuilder,
+  onFilterChange,
+  textDebounceMs,
+}: AdvancedFilterProps) {
+  const filterableFields = fields.filter((f) => f.filterable);
+  const [tree, setTree] = useState<CriteriaGroup>(() =>
+    criteriaToTree(queryBuilder.query.criteria)
+  );
+
+  // Serialized criteria the tree was last built from or written as
+  const syncedCriteriaRef = useRef(JSON.stringify(queryBuilder.query.criteria));
+  // Builder of the latest render, a debounced write must not edit a replaced one
+  const builderRef = useRef(queryBuilder);
+  builderRef.current = queryBuilder;
+  const debounceTimer = useRef<{ id?: ReturnType<typeof setTimeout> }>({});
+
+  // Re-sync when the query changes from outside (e.g. "Clear Filters" or URL)
+  useEffect(() => {
+    const current = JSON.stringify(queryBuilder.query.criteria);
+    if (current !== syncedCriteriaRef.current) {
+      syncedCriteriaRef.current = current;
+      clearTimeout(debounceTimer.current.id);
+      setTree(criteriaToTree(queryBuilder.query.criteria));
+    }
+  }, [queryBuilder]);
+
+  // Drop a pending typed value on unmount
+  useEffect(() => {
+    const timer = debounceTimer.current;
+    return () => clearTimeout(timer.id);
+  }, []);
+
+  const writeCriteria = (newTree: CriteriaGroup) => {
+    const criteria = treeToCriteria(newTree);
+    const serialized = JSON.stringify(criteria);
+    if (serialized !== syncedCriteriaRef.current) {
+      syncedCriteriaRef.current = serialized;
+      builderRef.current.setCriteria(criteria);
+      onFilterChange();
+    }
+  };
+
+  const updateTree = (newTree: CriteriaGroup, options: TreeUpdateOptions = {}) => {
+    setTree(newTree);
+    // The new tree holds any pending typed value, so it replaces the pending write
+    clearTimeout(debounceTimer.current.id);
+    if (options.debounce && textDebounceMs > 0) {
+      debounceTimer.current.id = setTimeout(() => writeCriteria(newTree), textDebounceMs);
+    } else {
+      writeCriteria(newTree);
+    }
+  };
+
+  const getField = (key: string): Field | undefined =>
+    filterableFields.find((f) => (f.accessor || f.name) === key);
+
+  const newCondition = (): Criteria => {
+    const field = filterableFields[0];
+    return {
+      key: field ? field.accessor || field.name : "",
+      operation: field ? getDefaultOperation(field) : CriteriaOperation.EQUAL,
+      values: [],
+    };
+  };
+
+  /**
+   * Return a copy of `group` with the node at `path` replaced (or removed when `node` is null)
+   */
+  const replaceAt = (
+    group: CriteriaGroup,
+    path: number[],
+    node: CriteriaNode | null
+  ): CriteriaGroup => {
+    const [idx, ...rest] = path;
+    const children = [...group.children];
+    if (rest.length === 0) {
+      if (node) {
+        children[idx] = node;
+      } else {
+        children.splice(idx, 1);
+      }
+    } else {
+      children[idx] = replaceAt(children[idx] as CriteriaGroup, rest, node);
+    }
+    return { ...group, children };
+  };
+
+  const updateNode = (
+    path: number[],
+    node: CriteriaNode | null,
+    options?: TreeUpdateOptions
+  ) => {
+    if (path.length === 0) {
+      updateTree((node as CriteriaGroup) || { logic: "AND", children: [] }, options);
+    } else {
+      updateTree(replaceAt(tree, path, node), options);
+    }
+  };
+
+  const toInputDate = (field: Field, value?: string): string => {
+    if (!value) return "";
+    const date =
+      field.type === "DateSec" || field.type === "DateTimeSec"
+        ? new Date(parseInt(value, 10) * 1000)
+        : new Date(value);
+    return isNaN(date.getTime()) ? "" : format(date, "yyyy-MM-dd");
+  };
+
+  const fromInputDate = (field: Field, value: string): string => {
+    if (!value) return "";
+    const date = new Date(`${value}T00:00:00`);
+    return field.type === "DateSec" || field.type === "DateTimeSec"
+      ? Math.floor(date.getTime() / 1000).toString()
+      : date.toISOString();
+  };
+
+  const renderValueInput = (
+    field: Field,
+    criteria: Criteria,
+    onValuesChange: (values: string[]) => void,
+    onTypedValuesChange: (values: string[]) => void
+  ) => {
+    const value = criteria.values[0] || "";
+    const onChange = (newValue: string) =>
+      onValuesChange(newValue ? [newValue] : []);
+    const onTypedChange = (newValue: string) =>
+      onTypedValuesChange(newValue ? [newValue] : []);
+
+    switch (getOperationArity(criteria.operation)) {
+      case "none":
+        return null;
+
+      case "multi":
+        if (field.type === "Relation") {
+          return (
+            <RelationSelect
+              field={field}
+              multiple
+              value={criteria.values}
+              onChange={onValuesChange}
+            />
+          );
+        }
+        return field.type === "Enum" ? (
+          <EnumCheckboxList
+            id={`advanced-${criteria.key}`}
+            field={field}
+            values={criteria.values}
+            onChange={onValuesChange}
+          />
+        ) : (
+          <ListInput
+            type={field.type === "Integer" ? "number" : "text"}
+            values={criteria.values}
+            onChange={onTypedValuesChange}
+          />
+        );
+
+      case "range":
+        return (
+          <RangeInput
+            type={field.type === "Integer" ? "number" : "text"}
+            values={criteria.values}
+            onChange={onTypedValuesChange}
+          />
+        );
+    }
+
+    if (criteria.operation === CriteriaOperation.SPECIFIED) {
+      return (
+        <Select value={value || undefined} onValueChange={onChange}>
+          <SelectTrigger>
+            <SelectValue placeholder="Any" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="true">Has a value</SelectItem>
+            <SelectItem value="false">Is empty</SelectItem>
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    switch (field.type) {
+      case "Boolean":
+        return (
+          <Select value={value || undefined} onValueChange={onChange}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select value" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="true">Yes</SelectItem>
+              <SelectItem value="false">No</SelectItem>
+            </SelectContent>
+          </Select>
+        );
+
+      case "Enum":
+        return <EnumSelect field={field} value={value} onChange={onChange} />;
+
+      case "Relation":
+        return (
+          <RelationSelect
+            field={field}
+            value={value}
+            onChange={(newValue) => onChange(newValue === null ? "" : String(newValue))}
+          />
+        );
+
+      case "Date":
+      case "DateSec":
+      case "DateTimeSec":
+        return (
+          <Input
+            type="date"
+            value={toInputDate(field, value)}
+            onChange={(e) => onChange(fromInputDate(field, e.target.value))}
+          />
+        );
+
+      case "Integer":
+        return (
+          <Input
+            type="number"
+            placeholder="Value"
+            value={value}
+            onChange={(e) => onTypedChange(e.target.value)}
+          />
+        );
+
+      default:
+        return (
+          <Input
+            placeholder="Value"
+            value={value}
+            onChange={(e) => onTypedChange(e.target.value)}
+          />
+        );
+    }
+  };
+
+  const renderCondition = (criteria: Criteria, path: number[]) => {
+    const field = getField(criteria.key);
+
+    const handleFieldChange = (key: string) => {
+      const newField = getField(key)!;
+      updateNode(path, {
+        key,
+        operation: getDefaultOperation(newField),
+        values: [],
+      });
+    };
+
+    const handleOperationChange = (operation: CriteriaOperation) => {
+      // Value operators keep the typed value(s); SPECIFIED, ranges and no-value operators start over
+      const isValueOperation = (op: CriteriaOperation) =>
+        op !== CriteriaOperation.SPECIFIED &&
+        ["single", "multi"].includes(getOperationArity(op));
+      const keepsValue =
+        isValueOperation(operation) && isValueOperation(criteria.operation);
+      const values = keepsValue
+        ? getOperationArity(operation) === "single"
+          ? criteria.values.slice(0, 1)
+          : criteria.values
+        : [];
+      updateNode(path, { ...criteria, operation, values });
+    };
+
+    const handleValuesChange = (values: string[]) => {
+      updateNode(path, { ...criteria, values });
+    };
+
+    const handleTypedValuesChange = (values: string[]) => {
+      updateNode(path, { ...criteria, values }, { debounce: true });
+    };
+
+    return (
+      <div className="flex items-center gap-2">
+        <Select value={criteria.key || undefined} onValueChange={handleFieldChange}>
+          <SelectTrigger className="w-[180px] shrink-0">
+            <SelectValue placeholder="Field" />
+          </SelectTrigger>
+          <SelectContent>
+            {filterableFields.map((f) => (
+              <SelectItem key={f.name} value={f.accessor || f.name}>
+                {f.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {field && (
+          <>
+            <Select
+              value={criteria.operation}
+              onValueChange={(value) =>
+                handleOperationChange(value as CriteriaOperation)
+              }
+            >
+              <SelectTrigger className="w-[180px] shrink-0">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {getAllowedOperations(field).map((operation) => (
+                  <SelectItem key={operation} value={operation}>
+                    {OPERATION_LABELS[operation]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex-1">
+              {renderValueInput(field, criteria, handleValuesChange, handleTypedValuesChange)}
+            </div>
+          </>
+        )}
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => updateNode(path, null)}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    );
+  };
+
+  const renderGroup = (group: CriteriaGroup, path: number[]) => {
+    const isRoot = path.length === 0;
+
+    const setLogic = (logic: CriteriaLogic) => updateNode(path, { ...group, logic });
+    const addChild = (child: CriteriaNode) =>
+      updateNode(path, { ...group, children: [...group.children, child] });
+
+    return (
+      <div
+        className={cn(
+          "space-y-2",
+          !isRoot && "border-l-2 border-primary/40 pl-3 py-2"
+        )}
+      >
+        <div className="flex items-center gap-2">
+          <div className="flex rounded-md border">
+            {(["AND", "OR"] as CriteriaLogic[]).map((logic) => (
+              <Button
+                key={logic}
+                variant={group.logic === logic ? "default" : "ghost"}
+                size="sm"
+                className="h-7 px-3 text-xs"
+                onClick={() => setLogic(logic)}
+              >
+                {logic}
+              </Button>
+            ))}
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => addChild(newCondition())}
+          >
+            <Plus className="h-3 w-3 mr-1" />
+            Condition
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() =>
+              addChild({
+                logic: group.logic === "AND" ? "OR" : "AND",
+                children: [newCondition()],
+              })
+            }
+          >
+            <ListPlus className="h-3 w-3 mr-1" />
+            Group
+          </Button>
+          {!isRoot && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 ml-auto"
+              onClick={() => updateNode(path, null)}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+
+        {group.children.length === 0 && isRoot && (
+          <div className="text-sm text-muted-foreground">
+            No conditions. Add a condition or a group to start filtering.
+          </div>
+        )}
+
+        {group.children.map((child, idx) => (
+          <div key={idx} className="space-y-2">
+            {idx > 0 && (
+              <div className="text-xs font-medium text-muted-foreground">
+                {group.logic}
+              </div>
+            )}
+            {isCriteriaGroup(child)
+              ? renderGroup(child, [...path, idx])
+              : renderCondition(child, [...path, idx])}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return renderGroup(tree, []);
+}
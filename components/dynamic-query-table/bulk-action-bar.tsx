@@ -0,0 +1,311 @@
+"use client";
+
+import React, { useState } from "react";
+import { Check, PenLine, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Field } from "@/lib/types/field.types";
+import { DataSource, EntityId } from "@/lib/types/data-source.types";
+import { BulkAction, BulkRowResult } from "@/lib/types/bulk-action.types";
+import { runForEachRow } from "@/lib/utils/bulk";
+import { setFieldValue } from "@/lib/utils/format";
+import { getEnumLabel } from "@/lib/utils/enum-values";
+import { toDataSourceError } from "@/lib/utils/data-source";
+import { toast } from "@/lib/hooks/use-toast";
+import { ConfirmDialog } from "./confirm-dialog";
+import { EnumSelect } from "./enum-select";
+
+interface BulkActionBarProps<T> {
+  fields: Field[];
+  /** Number of selected rows */
+  count: number;
+  /** Load the selected rows (query-based selections page through the data source) */
+  resolveRows: () => Promise<T[]>;
+  idField: string;
+  dataSource: DataSource<T>;
+  enableDelete?: boolean;
+  /** Offer "Set field" for editable Enum and Boolean fields */
+  enableUpdate?: boolean;
+  /** Resolve the full record before updating (projection only loads visible columns) */
+  loadFullRecord?: (row: T) => Promise<T>;
+  actions?: BulkAction<T>[];
+  onClearSelection: () => void;
+  /** Called after an action ran, to refetch the page */
+  onComplete: () => void | Promise<void>;
+}
+
+interface PendingAction<T> {
+  title: string;
+  description?: string;
+  confirmLabel: string;
+  destructive?: boolean;
+  run: (rows: T[]) => Promise<BulkRowResult[] | void>;
+}
+
+/**
+ * Bar shown above the table while rows are selected: built-in bulk delete and
+ * field update, custom actions, confirmations and a per-row result report
+ */
+export function BulkActionBar<T>({
+  fields,
+  count,
+  resolveRows,
+  idField,
+  dataSource,
+  enableDelete = false,
+  enableUpdate = false,
+  loadFullRecord,
+  actions = [],
+  onClearSelection,
+  onComplete,
+}: BulkActionBarProps<T>) {
+  const [pending, setPending] = useState<PendingAction<T> | null>(null);
+  const [report, setReport] = useState<{ title: string; results: BulkRowResult[] } | null>(
+    null
+  );
+  const [updateFieldName, setUpdateFieldName] = useState<string>("");
+  const [updateValue, setUpdateValue] = useState<string>("");
+
+  const getId = (row: T): EntityId => (row as any)[idField];
+
+  const updatableFields = fields.filter(
+    (f) => f.editable && (f.type === "Enum" || f.type === "Boolean")
+  );
+  const updateField = updatableFields.find((f) => f.name === updateFieldName);
+
+  const execute = async (action: PendingAction<T>) => {
+    // Loading a query-based selection can fail before any row is touched
+    const rows = await resolveRows();
+    // A throwing action failed as a whole: report every selected row
+    let results: BulkRowResult[];
+    try {
+      results =
+        (await action.run(rows)) || rows.map((row) => ({ id: getId(row), success: true }));
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      results = rows.map((row) => ({ id: getId(row), success: false, error }));
+    }
+    setReport({ title: action.title, results });
+    await onComplete();
+  };
+
+  const requestDelete = () =>
+    setPending({
+      title: `Delete ${rowsLabel}`,
+      description: "This cannot be undone.",
+      confirmLabel: "Delete",
+      destructive: true,
+      run: (rows) => runForEachRow(rows, getId, (row) => dataSource.delete(getId(row))),
+    });
+
+  const requestUpdate = () => {
+    if (!updateField || updateValue === "") return;
+    const value = updateField.type === "Boolean" ? updateValue === "true" : updateValue;
+    const label =
+      updateField.type === "Enum"
+        ? getEnumLabel(updateField, updateValue)
+        : value
+          ? "Yes"
+          : "No";
+    setPending({
+      title: `Set ${updateField.title} on ${rowsLabel}`,
+      description: `${updateField.title} will be set to "${label}".`,
+      confirmLabel: "Update",
+      run: (rows) =>
+        runForEachRow(rows, getId, async (row) => {
+          const full = loadFullRecord ? await loadFullRecord(row) : row;
+          return dataSource.update(getId(row), setFieldValue(full, updateField, value));
+        }),
+    });
+  };
+
+  const notifyLoadError = (err: unknown) => {
+    toast({
+      variant: "error",
+      title: "Could not load the selected rows",
+      description: toDataSourceError(err).message,
+    });
+  };
+
+  const requestCustom = (action: BulkAction<T>) => {
+    const run = (rows: T[]) => action.run(rows);
+    if (!action.confirm) {
+      execute({ title: action.label, confirmLabel: action.label, run }).catch(notifyLoadError);
+      return;
+    }
+    if (typeof action.confirm === "string") {
+      setPending({
+        title: action.label,
+        description: action.confirm,
+        confirmLabel: action.label,
+        destructive: action.destructive,
+        run,
+      });
+      return;
+    }
+    // The message needs the rows, so load them up front
+    const confirm = action.confirm;
+    resolveRows()
+      .then((rows) =>
+        setPending({
+          title: action.label,
+          description: confirm(rows),
+          confirmLabel: action.label,
+          destructive: action.destructive,
+          run,
+        })
+      )
+      .catch(notifyLoadError);
+  };
+
+  const rowsLabel = `${count.toLocaleString()} row${count === 1 ? "" : "s"}`;
+
+  const failures = report ? report.results.filter((r) => !r.success) : [];
+
+  return (
+    <div className="space-y-2">
+      {count > 0 && (
+        <div className="flex flex-wrap items-center gap-2 rounded-md border bg-muted/50 px-3 py-2">
+          <span className="text-sm font-medium">{count.toLocaleString()} selected</span>
+          <Button variant="ghost" size="sm" onClick={onClearSelection}>
+            <X className="h-4 w-4 mr-1" />
+            Clear
+          </Button>
+          <div className="ml-auto flex flex-wrap items-center gap-2">
+            {actions.map((action) => (
+              <Button
+                key={action.name}
+                variant={action.destructive ? "destructive" : "outline"}
+                size="sm"
+                onClick={() => requestCustom(action)}
+              >
+                {action.icon && <span className="mr-2 flex">{action.icon}</span>}
+                {action.label}
+              </Button>
+            ))}
+            {enableUpdate && updatableFields.length > 0 && (
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" size="sm">
+                    <PenLine className="h-4 w-4 mr-2" />
+                    Set field
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-64" align="end">
+                  <div className="space-y-2">
+                    <Select
+                      value={updateFieldName || undefined}
+                      onValueChange={(name) => {
+                        setUpdateFieldName(name);
+                        setUpdateValue("");
+                      }}
+                    >
+                      <SelectTrigger className="h-8 text-sm">
+                        <SelectValue placeholder="Field" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {updatableFields.map((f) => (
+                          <SelectItem key={f.name} value={f.name}>
+                            {f.title}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {updateField?.type === "Enum" && (
+                      <EnumSelect
+                        field={updateField}
+                        value={updateValue}
+                        onChange={setUpdateValue}
+                        placeholder="Value"
+                        className="h-8 text-sm"
+                      />
+                    )}
+                    {updateField?.type === "Boolean" && (
+                      <Select value={updateValue || undefined} onValueChange={setUpdateValue}>
+                        <SelectTrigger className="h-8 text-sm">
+                          <SelectValue placeholder="Value" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="true">Yes</SelectItem>
+                          <SelectItem value="false">No</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    )}
+                    <Button
+                      size="sm"
+                      className="w-full"
+                      disabled={!updateField || updateValue === ""}
+                      onClick={requestUpdate}
+                    >
+                      Apply to {rowsLabel}
+                    </Button>
+                  </div>
+                </PopoverContent>
+              </Popover>
+            )}
+            {enableDelete && (
+              <Button variant="destructive" size="sm" onClick={requestDelete}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {report && (
+        <div
+          className={
+            failures.length > 0
+              ? "rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm"
+              : "rounded-md border p-3 text-sm"
+          }
+        >
+          <div className="flex items-start gap-2">
+            {failures.length === 0 && <Check className="h-4 w-4 mt-0.5 text-primary" />}
+            <div className="flex-1">
+              <div className="font-medium">
+                {report.title}: {report.results.length - failures.length} of{" "}
+                {report.results.length} succeeded
+              </div>
+              {failures.length > 0 && (
+                <ul className="mt-1 space-y-0.5 text-destructive">
+                  {failures.map((failure) => (
+                    <li key={String(failure.id)}>
+                      #{failure.id}: {failure.error || "Failed"}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={() => setReport(null)}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <ConfirmDialog
+        open={pending !== null}
+        title={pending?.title || ""}
+        description={pending?.description}
+        confirmLabel={pending?.confirmLabel}
+        destructive={pending?.destructive}
+        onConfirm={() => (pending ? execute(pending) : undefined)}
+        onClose={() => setPending(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { EnumField } from "@/lib/types/field.types";
+import { useEnumValues } from "@/lib/hooks/use-enum-values";
+
+function parseList(text: string, type: "text" | "number"): string[] {
+  return text
+    .split(",")
+    .map((value) => value.trim())
+    .filter((value) => value !== "" && (type !== "number" || !isNaN(Number(value))));
+}
+
+interface ListInputProps {
+  values: string[];
+  onChange: (values: string[]) => void;
+  type?: "text" | "number";
+  placeholder?: string;
+}
+
+/**
+ * Comma separated input for multi-value operations (IN, NOT_IN).
+ * Keeps the raw text locally so trailing commas and spaces survive typing.
+ */
+export function ListInput({
+  values,
+  onChange,
+  type = "text",
+  placeholder = "Value 1, Value 2, ...",
+}: ListInputProps) {
+  const [draft, setDraft] = useState(values.join(", "));
+  const serialized = JSON.stringify(values);
+
+  // Adopt external changes (e.g. cleared filters) without clobbering the text being typed
+  useEffect(() => {
+    const external: string[] = JSON.parse(serialized);
+    setDraft((current) =>
+      JSON.stringify(parseList(current, type)) === serialized
+        ? current
+        : external.join(", ")
+    );
+  }, [serialized, type]);
+
+  return (
+    <Input
+      placeholder={placeholder}
+      value={draft}
+      onChange={(e) => {
+        setDraft(e.target.value);
+        onChange(parseList(e.target.value, type));
+      }}
+    />
+  );
+}
+
+interface RangeInputProps {
+  values: string[];
+  onChange: (values: string[]) => void;
+  type?: "text" | "number";
+}
+
+/**
+ * From/to inputs for BETWEEN.
+ * Emits [from, to] once both ends are set, [] otherwise.
+ */
+export function RangeInput({ values, onChange, type = "number" }: RangeInputProps) {
+  const [from, setFrom] = useState(values[0] || "");
+  const [to, setTo] = useState(values[1] || "");
+
+  const [externalFrom, externalTo] = values.length === 2 ? values : [];
+
+  // Adopt complete ranges coming from outside (e.g. URL), keep half-typed ones
+  useEffect(() => {
+    if (externalFrom !== undefined && externalTo !== undefined) {
+      setFrom(externalFrom);
+      setTo(externalTo);
+    }
+  }, [externalFrom, externalTo]);
+
+  const update = (newFrom: string, newTo: string) => {
+    setFrom(newFrom);
+    setTo(newTo);
+    onChange(newFrom !== "" && newTo !== "" ? [newFrom, newTo] : []);
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Input
+        type={type}
+        placeholder="From"
+        value={from}
+        onChange={(e) => update(e.target.value, to)}
+      />
+      <span className="text-sm text-muted-foreground">and</span>
+      <Input
+        type={type}
+        placeholder="To"
+        value={to}
+        onChange={(e) => update(from, e.target.value)}
+      />
+    </div>
+  );
+}
+
+interface EnumCheckboxListProps {
+  id: string;
+  field: EnumField;
+  values: string[];
+  onChange: (values: string[]) => void;
+}
+
+/**
+ * Checkbox list for picking several enum values (IN, NOT_IN)
+ */
+export function EnumCheckboxList({
+  id,
+  field,
+  values,
+  onChange,
+}: EnumCheckboxListProps) {
+  const { labels, loading, error, reload } = useEnumValues(field);
+
+  const toggle = (key: string, checked: boolean) => {
+    onChange(checked ? [...values, key] : values.filter((value) => value !== key));
+  };
+
+  if (loading) {
+    return <div className="text-sm text-muted-foreground">Loading values...</div>;
+  }
+  if (error) {
+    return (
+      <div className="text-sm text-destructive">
+        Couldn&apos;t load values: {error}{" "}
+        <button type="button" className="underline" onClick={reload}>
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap gap-x-4 gap-y-2">
+      {Object.entries(labels).map(([key, label]) => (
+        <div key={key} className="flex items-center space-x-2">
+          <Checkbox
+            id={`${id}-${key}`}
+            checked={values.includes(key)}
+            onCheckedChange={(checked) => toggle(key, checked as boolean)}
+          />
+          <label htmlFor={`${id}-${key}`} className="text-sm cursor-pointer">
+            {label}
+          </label>
+        </div>
+      ))}
+    </div>
+  );
+}
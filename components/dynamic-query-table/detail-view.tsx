@@ -1,7 +1,7 @@
 "use client";
 
-import React from "react";
-import { Field } from "@/lib/types/field.types";
+import React, { useEffect, useState } from "react";
+import { Field, RelationField } from "@/lib/types/field.types";
 import { format } from "date-fns";
 import {
   Dialog,
@@ -9,29 +9,84 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import { cn } from "@/lib/utils/cn";
+import { sanitizeHtml } from "@/lib/utils/sanitize";
+import { getRelationLabel, getRelationLabels, loadRelationLabels } from "@/lib/utils/relation";
+import { toDataSourceError } from "@/lib/utils/data-source";
+import { toast } from "@/lib/hooks/use-toast";
+import { richTextContentClassName } from "./rich-text-editor";
+import { EnumBadge } from "./enum-badge";
 
 interface DetailViewProps {
   data: any;
   fields: Field[];
   open: boolean;
+  /** Full record is still being loaded (projection mode) */
+  loading?: boolean;
   onClose: () => void;
 }
 
-export function DetailView({ data, fields, open, onClose }: DetailViewProps) {
+const getFieldValue = (field: Field, data: any): any => {
+  const path = (field.accessor || field.name).split(".");
+  let value = data;
+  for (const key of path) {
+    if (value && typeof value === "object") {
+      value = value[key];
+    } else {
+      return null;
+    }
+  }
+  return value;
+};
+
+export function DetailView({
+  data,
+  fields,
+  open,
+  loading = false,
+  onClose,
+}: DetailViewProps) {
   const detailFields = fields.filter((f) => f.showInDetail);
+  // Loaded labels of the record's Relation values, by field name and id
+  const [relationLabels, setRelationLabels] = useState<Record<string, Record<string, string>>>(
+    {}
+  );
 
-  const getFieldValue = (field: Field, data: any): any => {
-    const path = (field.accessor || field.name).split(".");
-    let value = data;
-    for (const key of path) {
-      if (value && typeof value === "object") {
-        value = value[key];
-      } else {
-        return null;
-      }
-    }
-    return value;
-  };
+  // Relation columns hidden in the table have no labels loaded yet
+  useEffect(() => {
+    if (!data) return;
+    const relationFields = fields.filter(
+      (f): f is RelationField => f.type === "Relation" && !!f.showInDetail && !f.renderCell
+    );
+    if (relationFields.length === 0) return;
+
+    let cancelled = false;
+    Promise.all(
+      relationFields.map((field) => loadRelationLabels(field, [getFieldValue(field, data)]))
+    )
+      .catch((error) =>
+        toast({
+          id: "relation-labels",
+          variant: "error",
+          title: "Could not load related names",
+          description: `${toDataSourceError(error).message}. Ids are shown instead.`,
+        })
+      )
+      .finally(() => {
+        if (cancelled) return;
+        setRelationLabels(
+          Object.fromEntries(
+            relationFields.map((field) => [
+              field.name,
+              getRelationLabels(field, [getFieldValue(field, data)]),
+            ])
+          )
+        );
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [data, fields]);
 
   const renderFieldValue = (field: Field, value: any) => {
     // Use custom renderer if provided
@@ -49,7 +104,16 @@ export function DetailView({ data, fields, open, onClose }: DetailViewProps) {
         return <span>{value ? "Yes" : "No"}</span>;
 
       case "Enum":
-        return <span>{field.enumValues[value] || value}</span>;
+        return <EnumBadge field={field} value={value} />;
+
+      case "Relation":
+        return (
+          <span>
+            {relationLabels[field.name]?.[String(value)] ??
+              getRelationLabel(field, value) ??
+              String(value)}
+          </span>
+        );
 
       case "DateSec":
       case "DateTimeSec":
@@ -91,8 +155,10 @@ export function DetailView({ data, fields, open, onClose }: DetailViewProps) {
       case "RichText":
         return (
           <div
-            className="prose prose-sm max-w-none"
-            dangerouslySetInnerHTML={{ __html: value }}
+            className={cn("text-sm", richTextContentClassName)}
+            dangerouslySetInnerHTML={{
+              __html: sanitizeHtml(value, field.editorConfig?.allowedTags),
+            }}
           />
         );
 
@@ -105,7 +171,14 @@ export function DetailView({ data, fields, open, onClose }: DetailViewProps) {
     <Dialog open={open} onOpenChange={onClose}>
       <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Details</DialogTitle>
+          <DialogTitle>
+            Details
+            {loading && (
+              <span className="ml-2 text-sm font-normal text-muted-foreground">
+                Loading...
+              </span>
+            )}
+          </DialogTitle>
         </DialogHeader>
         <div className="space-y-4 mt-4">
           {detailFields.map((field) => {
@@ -0,0 +1,54 @@
+"use client";
+
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils/cn";
+import { EnumColor, EnumField } from "@/lib/types/field.types";
+import { useEnumValues } from "@/lib/hooks/use-enum-values";
+
+/**
+ * Badge classes per enum colour
+ */
+export const ENUM_COLOR_CLASSES: Record<EnumColor, string> = {
+  gray: "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-100",
+  red: "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200",
+  orange: "bg-orange-100 text-orange-800 dark:bg-orange-900/40 dark:text-orange-200",
+  yellow: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-200",
+  green: "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200",
+  blue: "bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-200",
+  purple: "bg-purple-100 text-purple-800 dark:bg-purple-900/40 dark:text-purple-200",
+  pink: "bg-pink-100 text-pink-800 dark:bg-pink-900/40 dark:text-pink-200",
+};
+
+interface EnumBadgeProps {
+  field: EnumField;
+  value: any;
+}
+
+/**
+ * Label of an enum value, as a coloured badge when the value has a colour.
+ * The raw key is shown (dimmed) while remote values load or when they failed to load.
+ */
+export function EnumBadge({ field, value }: EnumBadgeProps) {
+  const { labels, colors, loading, error } = useEnumValues(field);
+  const key = String(value);
+
+  if (loading || error) {
+    return (
+      <span className="text-muted-foreground" title={error || undefined}>
+        {key}
+      </span>
+    );
+  }
+
+  const label = labels[key] || key;
+  const color = colors[key];
+  if (!color) {
+    return <span>{label}</span>;
+  }
+  return (
+    <Badge variant="outline" className={cn("border-transparent", ENUM_COLOR_CLASSES[color])}>
+      {label}
+    </Badge>
+  );
+}
@@ -0,0 +1,187 @@
+"use client";
+
+import React, { useState } from "react";
+import { Check, ChevronsUpDown, RefreshCw, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { cn } from "@/lib/utils/cn";
+import { EnumField } from "@/lib/types/field.types";
+import { useEnumValues } from "@/lib/hooks/use-enum-values";
+
+interface EnumMultiSelectProps {
+  field: EnumField;
+  /** Selected enum keys */
+  values: string[];
+  onChange: (values: string[]) => void;
+  /** "None of" mode: the selected values are excluded instead of matched */
+  exclude?: boolean;
+  /** Shows the "Any of" / "None of" switch when set */
+  onExcludeChange?: (exclude: boolean) => void;
+  id?: string;
+  placeholder?: string;
+}
+
+/**
+ * Chip picker for filtering an enum field by several values, with select-all/clear
+ * controls and an optional exclusion mode
+ */
+export function EnumMultiSelect({
+  field,
+  values,
+  onChange,
+  exclude = false,
+  onExcludeChange,
+  id,
+  placeholder,
+}: EnumMultiSelectProps) {
+  const [open, setOpen] = useState(false);
+  const { labels, loading, error, reload } = useEnumValues(field);
+
+  const keys = Object.keys(labels);
+  const labelOf = (key: string) => labels[key] || key;
+  const isSelected = (key: string) => values.includes(key);
+
+  const toggle = (key: string) =>
+    onChange(isSelected(key) ? values.filter((value) => value !== key) : [...values, key]);
+
+  if (error) {
+    return (
+      <div className="flex min-h-10 items-center gap-2 text-sm text-destructive">
+        <span className="flex-1">Couldn&apos;t load {field.title} values: {error}</span>
+        <Button type="button" variant="outline" size="sm" onClick={reload}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Retry
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex w-full gap-2">
+      {onExcludeChange && (
+        <div className="flex shrink-0 rounded-md border">
+          <Button
+            type="button"
+            variant={exclude ? "ghost" : "secondary"}
+            size="sm"
+            className="h-auto rounded-r-none"
+            onClick={() => onExcludeChange(false)}
+          >
+            Any of
+          </Button>
+          <Button
+            type="button"
+            variant={exclude ? "secondary" : "ghost"}
+            size="sm"
+            className="h-auto rounded-l-none"
+            onClick={() => onExcludeChange(true)}
+          >
+            None of
+          </Button>
+        </div>
+      )}
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            id={id}
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            disabled={loading}
+            className="h-auto min-h-10 w-full min-w-0 justify-between font-normal"
+          >
+            {loading ? (
+              <span className="text-muted-foreground">Loading values...</span>
+            ) : values.length === 0 ? (
+              <span className="text-muted-foreground">
+                {placeholder || `Select ${field.title}`}
+              </span>
+            ) : (
+              <span className="flex flex-wrap gap-1">
+                {values.map((key) => (
+                  <Badge
+                    key={key}
+                    variant="secondary"
+                    className={cn("gap-1", exclude && "line-through decoration-muted-foreground")}
+                  >
+                    {labelOf(key)}
+                    <span
+                      role="button"
+                      aria-label={`Remove ${labelOf(key)}`}
+                      className="rounded-sm hover:bg-muted-foreground/20"
+                      onPointerDown={(e) => e.stopPropagation()}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        toggle(key);
+                      }}
+                    >
+                      <X className="h-3 w-3" />
+                    </span>
+                  </Badge>
+                ))}
+              </span>
+            )}
+            <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent
+          className="w-[--radix-popover-trigger-width] min-w-[220px] p-0"
+          align="start"
+        >
+          <Command>
+            <CommandInput placeholder={`Search ${field.title}...`} />
+            <div className="flex items-center justify-between border-b px-2 py-1">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs"
+                disabled={values.length === keys.length}
+                onClick={() => onChange(keys)}
+              >
+                Select all
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs"
+                disabled={values.length === 0}
+                onClick={() => onChange([])}
+              >
+                Clear
+              </Button>
+            </div>
+            <CommandList>
+              <CommandEmpty>No values found.</CommandEmpty>
+              <CommandGroup>
+                {keys.map((key) => (
+                  // cmdk filters on the item value, so search matches the label
+                  <CommandItem
+                    key={key}
+                    value={`${labelOf(key)} ${key}`}
+                    onSelect={() => toggle(key)}
+                  >
+                    <Check
+                      className={cn("mr-2 h-4 w-4", isSelected(key) ? "opacity-100" : "opacity-0")}
+                    />
+                    {labelOf(key)}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
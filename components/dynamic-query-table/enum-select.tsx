@@ -0,0 +1,76 @@
+"use client";
+
+import React from "react";
+import { RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { EnumField } from "@/lib/types/field.types";
+import { useEnumValues } from "@/lib/hooks/use-enum-values";
+
+interface EnumSelectProps {
+  field: EnumField;
+  value?: string | null;
+  onChange: (value: string) => void;
+  id?: string;
+  placeholder?: string;
+  /** Open the list on mount, used by inline cell editing */
+  autoFocus?: boolean;
+  /** Extra classes for the trigger (e.g. a compact height) */
+  className?: string;
+}
+
+/**
+ * Single-value picker for enum fields, with loading and retry states for remote values
+ */
+export function EnumSelect({
+  field,
+  value,
+  onChange,
+  id,
+  placeholder,
+  autoFocus = false,
+  className,
+}: EnumSelectProps) {
+  const { labels, loading, error, reload } = useEnumValues(field);
+
+  if (error) {
+    return (
+      <div className="flex min-h-10 items-center gap-2 text-sm text-destructive">
+        <span className="flex-1">Couldn&apos;t load {field.title} values: {error}</span>
+        <Button type="button" variant="outline" size="sm" onClick={reload}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Retry
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <Select
+      // The selected label can only be shown once the values are there
+      value={loading || value === null || value === undefined || value === "" ? undefined : String(value)}
+      onValueChange={onChange}
+      defaultOpen={autoFocus && !loading}
+      disabled={loading}
+    >
+      <SelectTrigger id={id} className={className}>
+        <SelectValue
+          placeholder={loading ? "Loading values..." : placeholder || `Select ${field.title}`}
+        />
+      </SelectTrigger>
+      <SelectContent>
+        {Object.entries(labels).map(([key, label]) => (
+          <SelectItem key={key} value={key}>
+            {label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
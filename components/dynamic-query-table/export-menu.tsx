@@ -0,0 +1,192 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { DynamicQuery, Field, PaginationMode } from "@/lib/types/field.types";
+import { DataSource } from "@/lib/types/data-source.types";
+import { ExportFormat, ExportProgress, ExportScope } from "@/lib/types/export.types";
+import { exportRows, fetchAllPages, FetchAllPagesOptions } from "@/lib/utils/export";
+import { cn } from "@/lib/utils/cn";
+
+interface ExportMenuProps<T> {
+  /** Columns to export, in display order */
+  fields: Field[];
+  dataSource: DataSource<T>;
+  /** Current query (criteria, sort, projection); paging is replaced when exporting all pages */
+  query: DynamicQuery;
+  pageRows: T[];
+  selectedCount: number;
+  /** Load the selected rows (query-based selections page through the data source) */
+  resolveSelectedRows: (options: FetchAllPagesOptions) => Promise<T[]>;
+  /** Rows of the query; unknown when the endpoint returns a Slice */
+  totalElements?: number;
+  /** How "all pages" are requested, as in the table */
+  pagination?: PaginationMode;
+  idField?: string;
+  fileName?: string;
+}
+
+const SCOPE_LABELS: Record<ExportScope, string> = {
+  page: "Current page",
+  selected: "Selected rows",
+  all: "All pages",
+};
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV",
+  excel: "Excel",
+  json: "JSON",
+};
+
+/**
+ * Toolbar popover exporting the current page, the selected rows or every page
+ * of the current query as CSV, Excel or JSON
+ */
+export function ExportMenu<T>({
+  fields,
+  dataSource,
+  query,
+  pageRows,
+  selectedCount,
+  resolveSelectedRows,
+  totalElements,
+  pagination,
+  idField,
+  fileName = "export",
+}: ExportMenuProps<T>) {
+  const [scope, setScope] = useState<ExportScope>("page");
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop a running export when the table unmounts
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const counts: Record<ExportScope, number | undefined> = {
+    page: pageRows.length,
+    selected: selectedCount,
+    all: totalElements,
+  };
+
+  const handleExport = async (exportFormat: ExportFormat) => {
+    setError(null);
+
+    if (scope === "page") {
+      exportRows(pageRows, fields, exportFormat, fileName);
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ loaded: 0, total: counts[scope] });
+    try {
+      const options = { signal: controller.signal, onProgress: setProgress };
+      const rows =
+        scope === "selected"
+          ? await resolveSelectedRows(options)
+          : await fetchAllPages(dataSource, query, { ...options, pagination, idField });
+      exportRows(rows, fields, exportFormat, fileName);
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const percent =
+    progress && progress.total
+      ? Math.min(100, Math.round((progress.loaded / progress.total) * 100))
+      : 0;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline">
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72" align="end">
+        <div className="space-y-3">
+          <div className="font-medium text-sm">Export</div>
+
+          {progress ? (
+            <div className="space-y-2">
+              <div className="text-sm text-muted-foreground">
+                {progress.total !== undefined
+                  ? `Loading ${progress.loaded} of ${progress.total} rows...`
+                  : `Loading ${progress.loaded} rows...`}
+              </div>
+              <div className="h-2 w-full overflow-hidden rounded bg-muted">
+                {/* Without a total the bar only shows that rows are loading */}
+                <div
+                  className={cn(
+                    "h-full bg-primary transition-all",
+                    progress.total === undefined && "w-full animate-pulse"
+                  )}
+                  style={progress.total !== undefined ? { width: `${percent}%` } : undefined}
+                />
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                onClick={() => abortRef.current?.abort()}
+              >
+                Cancel
+              </Button>
+            </div>
+          ) : (
+            <>
+              <div className="space-y-1">
+                {(Object.keys(SCOPE_LABELS) as ExportScope[]).map((value) => (
+                  <label
+                    key={value}
+                    className="flex items-center gap-2 text-sm cursor-pointer"
+                  >
+                    <input
+                      type="radio"
+                      name="export-scope"
+                      checked={scope === value}
+                      disabled={counts[value] === 0}
+                      onChange={() => setScope(value)}
+                    />
+                    {SCOPE_LABELS[value]}
+                    {counts[value] !== undefined && (
+                      <span className="text-muted-foreground">({counts[value]})</span>
+                    )}
+                  </label>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map((value) => (
+                  <Button
+                    key={value}
+                    variant="outline"
+                    size="sm"
+                    className="flex-1"
+                    disabled={counts[scope] === 0}
+                    onClick={() => handleExport(value)}
+                  >
+                    {FORMAT_LABELS[value]}
+                  </Button>
+                ))}
+              </div>
+            </>
+          )}
+
+          {error && (
+            <div className="rounded-md border border-destructive/50 bg-destructive/10 p-2 text-xs text-destructive">
+              {error}
+            </div>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,207 @@
+"use client";
+
+import React from "react";
+import { Field } from "@/lib/types/field.types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { format } from "date-fns";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { CalendarIcon } from "lucide-react";
+import { cn } from "@/lib/utils/cn";
+import { UploadHandlers } from "@/lib/types/upload.types";
+import { resolveUploadHandler } from "@/lib/utils/upload";
+import { ImageUpload } from "./image-upload";
+import { RichTextEditor } from "./rich-text-editor";
+import { RelationSelect } from "./relation-select";
+import { EnumSelect } from "./enum-select";
+
+interface FieldInputProps {
+  field: Field;
+  value: any;
+  onChange: (value: any) => void;
+  id?: string;
+  /** Focus the input (or open the picker) on mount, used by inline cell editing */
+  autoFocus?: boolean;
+  /** Hide the label rendered next to Boolean checkboxes */
+  hideLabel?: boolean;
+  /** Upload handlers for Image fields, resolved by uploadConfig */
+  uploadHandlers?: UploadHandlers;
+  /** Reports a running image upload, so the caller can hold off saving */
+  onUploadingChange?: (uploading: boolean) => void;
+}
+
+/**
+ * Type-specific editor for a single field, shared by the Form dialog and inline cell editing
+ */
+export function FieldInput({
+  field,
+  value,
+  onChange,
+  id,
+  autoFocus = false,
+  hideLabel = false,
+  uploadHandlers,
+  onUploadingChange,
+}: FieldInputProps) {
+  // Use custom renderer if provided
+  if (field.renderEdit) {
+    return field.renderEdit(value, onChange);
+  }
+
+  switch (field.type) {
+    case "String":
+      return (
+        <Input
+          value={value || ""}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={field.placeholder}
+          autoFocus={autoFocus}
+        />
+      );
+
+    case "Integer":
+      return (
+        <Input
+          type="number"
+          value={value ?? ""}
+          // An empty box is no value (not 0), so the required and min/max rules see it
+          onChange={(e) => onChange(e.target.value === "" ? null : Number(e.target.value))}
+          placeholder={field.placeholder}
+          autoFocus={autoFocus}
+        />
+      );
+
+    case "Boolean":
+      return (
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id={id}
+            checked={value || false}
+            onCheckedChange={(checked) => onChange(checked)}
+            autoFocus={autoFocus}
+          />
+          {!hideLabel && (
+            <label htmlFor={id} className="text-sm">
+              {field.title}
+            </label>
+          )}
+        </div>
+      );
+
+    case "Enum":
+      return (
+        <EnumSelect
+          field={field}
+          id={id}
+          value={value}
+          onChange={onChange}
+          placeholder={field.placeholder}
+          autoFocus={autoFocus}
+        />
+      );
+
+    case "Date":
+      return (
+        <Popover defaultOpen={autoFocus}>
+          <PopoverTrigger asChild>
+            <Button
+              variant="outline"
+              className={cn(
+                "w-full justify-start text-left font-normal",
+                !value && "text-muted-foreground"
+              )}
+            >
+              <CalendarIcon className="mr-2 h-4 w-4" />
+              {value ? format(new Date(value), "PPP") : "Pick a date"}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0">
+            <Calendar
+              mode="single"
+              selected={value ? new Date(value) : undefined}
+              onSelect={(date) => onChange(date?.toISOString())}
+            />
+          </PopoverContent>
+        </Popover>
+      );
+
+    case "DateSec":
+    case "DateTimeSec":
+      const dateValue = value ? new Date(value * 1000) : undefined;
+      return (
+        <Popover defaultOpen={autoFocus}>
+          <PopoverTrigger asChild>
+            <Button
+              variant="outline"
+              className={cn(
+                "w-full justify-start text-left font-normal",
+                !value && "text-muted-foreground"
+              )}
+            >
+              <CalendarIcon className="mr-2 h-4 w-4" />
+              {value ? format(dateValue!, "PPP") : "Pick a date"}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0">
+            <Calendar
+              mode="single"
+              selected={dateValue}
+              onSelect={(date) =>
+                onChange(
+                  date ? Math.floor(date.getTime() / 1000) : null
+                )
+              }
+            />
+          </PopoverContent>
+        </Popover>
+      );
+
+    case "Image":
+      return (
+        <ImageUpload
+          field={field}
+          id={id}
+          value={value}
+          onChange={onChange}
+          handler={resolveUploadHandler(uploadHandlers, field.uploadConfig)}
+          onUploadingChange={onUploadingChange}
+        />
+      );
+
+    case "Relation":
+      return (
+        <RelationSelect
+          field={field}
+          id={id}
+          value={value}
+          onChange={onChange}
+          placeholder={field.placeholder}
+          autoFocus={autoFocus}
+        />
+      );
+
+    case "RichText":
+      return (
+        <RichTextEditor
+          id={id}
+          value={value}
+          onChange={onChange}
+          config={field.editorConfig}
+          placeholder={field.placeholder}
+          autoFocus={autoFocus}
+        />
+      );
+
+    default:
+      return (
+        <Input
+          value={value || ""}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={field.placeholder}
+          autoFocus={autoFocus}
+        />
+      );
+  }
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { Filter, ChevronDown, ChevronUp, Pin } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -18,41 +18,116 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { Calendar } from "@/components/ui/calendar";
 import { cn } from "@/lib/utils/cn";
 import { Field, CriteriaOperation } from "@/lib/types/field.types";
-import { QueryBuilder } from "@/lib/utils/query-builder";
+import { DynamicQueryState } from "@/lib/hooks/use-dynamic-query";
+import {
+  OPERATION_LABELS,
+  getAllowedOperations,
+  getDefaultOperation,
+  getOperationArity,
+  hasRequiredValues,
+  isOperationAllowed,
+} from "@/lib/utils/operations";
+import { countConditions, hasGrouping } from "@/lib/utils/criteria-tree";
+import { AdvancedFilter } from "./advanced-filter";
+import { EnumCheckboxList, ListInput, RangeInput } from "./criteria-inputs";
+import { RelationSelect } from "./relation-select";
+import { EnumSelect } from "./enum-select";
+import { EnumMultiSelect } from "./enum-multi-select";
 import { format } from "date-fns";
+import { DateRange } from "react-day-picker";
+
+/**
+ * UI-only operator for date fields: emits a
+ * GREATER_THAN_OR_EQUAL + LESS_THAN_OR_EQUAL criteria pair
+ */
+const RANGE_OPERATOR = "RANGE";
+
+type FilterOperator = CriteriaOperation | typeof RANGE_OPERATOR;
+
+/** Typed filters are applied once typing pauses for this long (ms) */
+const DEFAULT_TEXT_DEBOUNCE_MS = 300;
+
+/**
+ * Operators rendered with the enum chip picker, paired with their exclusion counterpart
+ */
+const ENUM_PICKER_OPERATORS: Partial<Record<CriteriaOperation, CriteriaOperation>> = {
+  [CriteriaOperation.EQUAL]: CriteriaOperation.NOT_EQUAL,
+  [CriteriaOperation.NOT_EQUAL]: CriteriaOperation.EQUAL,
+  [CriteriaOperation.IN]: CriteriaOperation.NOT_IN,
+  [CriteriaOperation.NOT_IN]: CriteriaOperation.IN,
+};
 
 interface FilterPanelProps {
-  fields: Field[];
-  queryBuilder: QueryBuilder;
-  onFilterChange: () => void;
+  /** Query state from useDynamicQuery; filtering edits its criteria and goes back to the first page */
+  query: DynamicQueryState;
+  /** Called after the criteria changed */
+  onFilterChange?: () => void;
+  /** Controlled pin state (e.g. persisted per table); uncontrolled panels use the global "filterPinned" key */
+  pinned?: boolean;
+  onPinnedChange?: (pinned: boolean) => void;
+  /** Delay (ms) before typed values are applied (default: 300, 0 applies every keystroke) */
+  textDebounceMs?: number;
 }
 
 export function FilterPanel({
-  fields,
-  queryBuilder,
+  query,
   onFilterChange,
+  pinned,
+  onPinnedChange,
+  textDebounceMs = DEFAULT_TEXT_DEBOUNCE_MS,
 }: FilterPanelProps) {
+  const { fields, queryBuilder } = query;
+  const isPinControlled = pinned !== undefined;
   const [isExpanded, setIsExpanded] = useState(false);
-  const [isPinned, setIsPinned] = useState(false);
-  const [dateRanges, setDateRanges] = useState<Record<string, { from?: Date; to?: Date }>>({});
+  const [internalPinned, setInternalPinned] = useState(false);
+  const isPinned = isPinControlled ? pinned : internalPinned;
+  const [rowOperators, setRowOperators] = useState<Record<string, FilterOperator>>({});
+  const [isAdvanced, setIsAdvanced] = useState(false);
+  // Typed text per field until its debounced filter is applied
+  const [textDrafts, setTextDrafts] = useState<Record<string, string>>({});
+  const debounceTimers = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+
+  const isGrouped = hasGrouping(queryBuilder.query.criteria);
 
   // Load pinned state from localStorage
   useEffect(() => {
+    if (isPinControlled) return;
     const savedPinState = localStorage.getItem("filterPinned");
     if (savedPinState) {
-      const pinned = JSON.parse(savedPinState);
-      setIsPinned(pinned);
-      if (pinned) {
-        setIsExpanded(true);
-      }
+      setInternalPinned(JSON.parse(savedPinState));
     }
+  }, [isPinControlled]);
+
+  // Drop pending typed filters on unmount
+  useEffect(() => {
+    const timers = debounceTimers.current;
+    return () => Object.values(timers).forEach(clearTimeout);
   }, []);
 
+  // A pinned panel is always expanded
+  useEffect(() => {
+    if (isPinned) {
+      setIsExpanded(true);
+    }
+  }, [isPinned]);
+
+  // OR/parenthesis groups can only be edited in advanced mode (e.g. loaded from URL)
+  useEffect(() => {
+    if (isGrouped) {
+      setIsAdvanced(true);
+    }
+  }, [isGrouped]);
+
+  const applyFilterChange = () => {
+    query.commit({ resetPage: true });
+    onFilterChange?.();
+  };
+
   // Get filterable fields
   const filterableFields = fields.filter((f) => f.filterable);
 
   // Count active filters
-  const activeFilterCount = queryBuilder.query.criteria.length;
+  const activeFilterCount = countConditions(queryBuilder.query.criteria);
 
   const toggleExpand = () => {
     if (!isPinned) {
@@ -63,82 +138,203 @@ export function FilterPanel({
   const togglePin = (e: React.MouseEvent) => {
     e.stopPropagation();
     const newPinState = !isPinned;
-    setIsPinned(newPinState);
-    if (newPinState) {
-      setIsExpanded(true);
+    if (isPinControlled) {
+      onPinnedChange?.(newPinState);
+    } else {
+      setInternalPinned(newPinState);
+      localStorage.setItem("filterPinned", JSON.stringify(newPinState));
     }
-    localStorage.setItem("filterPinned", JSON.stringify(newPinState));
   };
 
-  const handleStringFilter = (field: Field, value: string) => {
+  const isDateField = (field: Field): boolean =>
+    field.type === "Date" || field.type === "DateSec" || field.type === "DateTimeSec";
+
+  const canUseRange = (field: Field): boolean =>
+    isDateField(field) &&
+    isOperationAllowed(field, CriteriaOperation.GREATER_THAN_OR_EQUAL) &&
+    isOperationAllowed(field, CriteriaOperation.LESS_THAN_OR_EQUAL);
+
+  const getOperatorOptions = (field: Field): FilterOperator[] => {
+    const allowed: FilterOperator[] = getAllowedOperations(field);
+    return canUseRange(field) ? [RANGE_OPERATOR, ...allowed] : allowed;
+  };
+
+  /**
+   * Resolve the selected operator of a filter row:
+   * explicit user choice, then the operation found in the query (e.g. from the URL), then the field default
+   */
+  const getRowOperator = (field: Field): FilterOperator => {
     const fieldName = field.accessor || field.name;
-    if (value) {
-      queryBuilder.upsertCriteria(fieldName, CriteriaOperation.CONTAIN, [value]);
-    } else {
-      queryBuilder.removeCriteriaByKey(fieldName);
+    if (rowOperators[fieldName]) {
+      return rowOperators[fieldName];
+    }
+
+    const active = queryBuilder.query.criteria.filter((c) => c.key === fieldName);
+    const isRangeCriteria = active.every(
+      (c) =>
+        c.operation === CriteriaOperation.GREATER_THAN_OR_EQUAL ||
+        c.operation === CriteriaOperation.LESS_THAN_OR_EQUAL
+    );
+    if (
+      canUseRange(field) &&
+      (active.length > 0 ? isRangeCriteria : !field.defaultOperation)
+    ) {
+      return RANGE_OPERATOR;
     }
-    onFilterChange();
+    if (active.length > 0 && isOperationAllowed(field, active[0].operation)) {
+      return active[0].operation;
+    }
+    return getDefaultOperation(field);
   };
 
-  const handleIntegerFilter = (field: Field, value: string) => {
+  const toCriteriaDate = (field: Field, date: Date): string =>
+    field.type === "DateSec" || field.type === "DateTimeSec"
+      ? Math.floor(date.getTime() / 1000).toString()
+      : date.toISOString();
+
+  const fromCriteriaDate = (field: Field, value?: string): Date | undefined => {
+    if (!value) return undefined;
+    const date =
+      field.type === "DateSec" || field.type === "DateTimeSec"
+        ? new Date(parseInt(value, 10) * 1000)
+        : new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+  };
+
+  /**
+   * Enum fields filter by several values at once (EQUAL with multiple values),
+   * unless multiSelect is false
+   */
+  const usesEnumPicker = (field: Field, operator: FilterOperator): boolean =>
+    field.type === "Enum" &&
+    field.multiSelect !== false &&
+    operator !== RANGE_OPERATOR &&
+    operator in ENUM_PICKER_OPERATORS;
+
+  const isValueOperator = (operator: FilterOperator): boolean =>
+    operator !== RANGE_OPERATOR &&
+    operator !== CriteriaOperation.SPECIFIED &&
+    ["single", "multi"].includes(getOperationArity(operator));
+
+  const handleOperatorChange = (field: Field, operator: FilterOperator) => {
     const fieldName = field.accessor || field.name;
-    if (value) {
-      queryBuilder.upsertCriteria(fieldName, CriteriaOperation.EQUAL, [value]);
-    } else {
-      queryBuilder.removeCriteriaByKey(fieldName);
+    const previous = getRowOperator(field);
+    setRowOperators({ ...rowOperators, [fieldName]: operator });
+
+    const takesNoValue =
+      operator !== RANGE_OPERATOR && getOperationArity(operator) === "none";
+    if (!queryBuilder.hasCriteria(fieldName) && !takesNoValue) return;
+
+    const values = queryBuilder.getCriteriaValues(fieldName);
+    queryBuilder.removeCriteriaByKey(fieldName);
+
+    if (takesNoValue) {
+      // IS_NULL / IS_NOT_NULL apply as soon as they are picked
+      queryBuilder.addCriteria(fieldName, operator, []);
+    } else if (isValueOperator(operator) && isValueOperator(previous) && values.length > 0) {
+      // Keep the typed value(s) when switching between value operators;
+      // range, SPECIFIED and no-value operators start over
+      queryBuilder.addCriteria(
+        fieldName,
+        operator as CriteriaOperation,
+        getOperationArity(operator as CriteriaOperation) === "single" &&
+          !usesEnumPicker(field, operator)
+          ? [values[0]]
+          : values
+      );
     }
-    onFilterChange();
+    applyFilterChange();
   };
 
-  const handleBooleanFilter = (field: Field, checked: boolean) => {
+  const handleValuesFilter = (field: Field, values: string[]) => {
     const fieldName = field.accessor || field.name;
-    if (checked) {
-      queryBuilder.upsertCriteria(fieldName, CriteriaOperation.SPECIFIED, ["true"]);
-    } else {
-      queryBuilder.removeCriteriaByKey(fieldName);
+    const operator = getRowOperator(field) as CriteriaOperation;
+    queryBuilder.removeCriteriaByKey(fieldName);
+    if (hasRequiredValues(operator, values)) {
+      queryBuilder.addCriteria(fieldName, operator, values);
     }
-    onFilterChange();
+    applyFilterChange();
+  };
+
+  const handleValueFilter = (field: Field, value: string) => {
+    handleValuesFilter(field, value ? [value] : []);
   };
 
-  const handleEnumFilter = (field: Field & { type: "Enum" }, value: string) => {
+  /**
+   * Apply values of typed inputs once typing pauses, so each keystroke doesn't fetch
+   */
+  const handleTypedValuesFilter = (field: Field, values: string[]) => {
     const fieldName = field.accessor || field.name;
-    if (value) {
-      queryBuilder.upsertCriteria(fieldName, CriteriaOperation.EQUAL, [value]);
+    const operator = getRowOperator(field) as CriteriaOperation;
+    clearTimeout(debounceTimers.current[fieldName]);
+    debounceTimers.current[fieldName] = setTimeout(() => {
+      delete debounceTimers.current[fieldName];
+      setTextDrafts((current) => {
+        const next = { ...current };
+        delete next[fieldName];
+        return next;
+      });
+      // The query may have changed meanwhile: go through the hook, not this render's builder
+      query.setFilter(fieldName, operator, values);
+      onFilterChange?.();
+    }, textDebounceMs);
+  };
+
+  const handleTextFilter = (field: Field, value: string) => {
+    const fieldName = field.accessor || field.name;
+    setTextDrafts((current) => ({ ...current, [fieldName]: value }));
+    handleTypedValuesFilter(field, value ? [value] : []);
+  };
+
+  const getTextValue = (field: Field): string =>
+    textDrafts[field.accessor || field.name] ?? getFilterValue(field);
+
+  const handleBooleanFilter = (field: Field, checked: boolean) => {
+    const fieldName = field.accessor || field.name;
+    if (checked) {
+      queryBuilder.upsertCriteria(fieldName, CriteriaOperation.SPECIFIED, ["true"]);
     } else {
       queryBuilder.removeCriteriaByKey(fieldName);
     }
-    onFilterChange();
+    applyFilterChange();
   };
 
   const handleDateRangeFilter = (field: Field, range: { from?: Date; to?: Date }) => {
     const fieldName = field.accessor || field.name;
-    setDateRanges({ ...dateRanges, [fieldName]: range });
 
     queryBuilder.removeCriteriaByKey(fieldName);
 
     if (range.from) {
-      const value = field.type === "DateSec" || field.type === "DateTimeSec"
-        ? Math.floor(range.from.getTime() / 1000).toString()
-        : range.from.toISOString();
       queryBuilder.addCriteria(
         fieldName,
         CriteriaOperation.GREATER_THAN_OR_EQUAL,
-        [value]
+        [toCriteriaDate(field, range.from)]
       );
     }
 
     if (range.to) {
-      const value = field.type === "DateSec" || field.type === "DateTimeSec"
-        ? Math.floor(range.to.getTime() / 1000).toString()
-        : range.to.toISOString();
       queryBuilder.addCriteria(
         fieldName,
         CriteriaOperation.LESS_THAN_OR_EQUAL,
-        [value]
+        [toCriteriaDate(field, range.to)]
       );
     }
 
-    onFilterChange();
+    applyFilterChange();
+  };
+
+  const getDateRange = (field: Field): { from?: Date; to?: Date } => {
+    const fieldName = field.accessor || field.name;
+    return {
+      from: fromCriteriaDate(
+        field,
+        queryBuilder.getCriteriaValues(fieldName, CriteriaOperation.GREATER_THAN_OR_EQUAL)[0]
+      ),
+      to: fromCriteriaDate(
+        field,
+        queryBuilder.getCriteriaValues(fieldName, CriteriaOperation.LESS_THAN_OR_EQUAL)[0]
+      ),
+    };
   };
 
   const getFilterValue = (field: Field): string => {
@@ -152,31 +348,167 @@ export function FilterPanel({
     return queryBuilder.hasCriteria(fieldName, CriteriaOperation.SPECIFIED);
   };
 
+  const renderOperatorPicker = (field: Field) => {
+    const options = getOperatorOptions(field);
+    if (options.length <= 1) {
+      return null;
+    }
+    return (
+      <Select
+        value={getRowOperator(field)}
+        onValueChange={(value) => handleOperatorChange(field, value as FilterOperator)}
+      >
+        <SelectTrigger className="w-[180px] shrink-0">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map((operator) => (
+            <SelectItem key={operator} value={operator}>
+              {operator === RANGE_OPERATOR ? "Between" : OPERATION_LABELS[operator]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  };
+
+  const renderDateRangeInput = (field: Field) => {
+    const currentRange = getDateRange(field);
+    return (
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" className="w-full justify-start text-left font-normal">
+            {currentRange.from ? (
+              currentRange.to ? (
+                <>
+                  {format(currentRange.from, "LLL dd, y")} -{" "}
+                  {format(currentRange.to, "LLL dd, y")}
+                </>
+              ) : (
+                format(currentRange.from, "LLL dd, y")
+              )
+            ) : (
+              <span>Pick a date range</span>
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="range"
+            selected={currentRange as DateRange}
+            onSelect={(range) =>
+              handleDateRangeFilter(field, range || {})
+            }
+            numberOfMonths={2}
+          />
+        </PopoverContent>
+      </Popover>
+    );
+  };
+
+  const renderDateInput = (field: Field) => {
+    const selected = fromCriteriaDate(field, getFilterValue(field));
+    return (
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" className="w-full justify-start text-left font-normal">
+            {selected ? format(selected, "LLL dd, y") : <span>Pick a date</span>}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="single"
+            selected={selected}
+            onSelect={(date) =>
+              handleValueFilter(field, date ? toCriteriaDate(field, date) : "")
+            }
+          />
+        </PopoverContent>
+      </Popover>
+    );
+  };
+
+  const renderEnumPicker = (field: Field, operator: CriteriaOperation) => {
+    if (field.type !== "Enum") return null;
+    const fieldName = field.accessor || field.name;
+    const exclude =
+      operator === CriteriaOperation.NOT_EQUAL || operator === CriteriaOperation.NOT_IN;
+    const counterpart = ENUM_PICKER_OPERATORS[operator]!;
+    return (
+      <EnumMultiSelect
+        field={field}
+        id={`filter-${fieldName}`}
+        values={queryBuilder.getCriteriaValues(fieldName)}
+        onChange={(values) => handleValuesFilter(field, values)}
+        exclude={exclude}
+        onExcludeChange={
+          isOperationAllowed(field, counterpart)
+            ? (next) => next !== exclude && handleOperatorChange(field, counterpart)
+            : undefined
+        }
+      />
+    );
+  };
+
   const renderFilterInput = (field: Field) => {
     const fieldName = field.accessor || field.name;
+    const operator = getRowOperator(field);
 
-    switch (field.type) {
-      case "String":
-      case "RichText":
+    if (operator === RANGE_OPERATOR) {
+      return renderDateRangeInput(field);
+    }
+
+    if (usesEnumPicker(field, operator)) {
+      return renderEnumPicker(field, operator);
+    }
+
+    switch (getOperationArity(operator)) {
+      case "none":
         return (
-          <Input
-            placeholder={field.placeholder || `Filter ${field.title}...`}
-            value={getFilterValue(field)}
-            onChange={(e) => handleStringFilter(field, e.target.value)}
+          <div className="flex h-10 items-center text-sm text-muted-foreground">
+            No value needed
+          </div>
+        );
+
+      case "multi":
+        if (field.type === "Relation") {
+          return (
+            <RelationSelect
+              field={field}
+              id={`filter-${fieldName}`}
+              multiple
+              value={queryBuilder.getCriteriaValues(fieldName)}
+              onChange={(values) => handleValuesFilter(field, values)}
+            />
+          );
+        }
+        return field.type === "Enum" ? (
+          <EnumCheckboxList
+            id={`filter-${fieldName}`}
+            field={field}
+            values={queryBuilder.getCriteriaValues(fieldName)}
+            onChange={(values) => handleValuesFilter(field, values)}
+          />
+        ) : (
+          <ListInput
+            type={field.type === "Integer" ? "number" : "text"}
+            values={queryBuilder.getCriteriaValues(fieldName)}
+            onChange={(values) => handleTypedValuesFilter(field, values)}
           />
         );
 
-      case "Integer":
+      case "range":
         return (
-          <Input
-            type="number"
-            placeholder={field.placeholder || `Filter ${field.title}...`}
-            value={getFilterValue(field)}
-            onChange={(e) => handleIntegerFilter(field, e.target.value)}
+          <RangeInput
+            type={field.type === "Integer" ? "number" : "text"}
+            values={queryBuilder.getCriteriaValues(fieldName)}
+            onChange={(values) => handleTypedValuesFilter(field, values)}
           />
         );
+    }
 
-      case "Boolean":
+    if (operator === CriteriaOperation.SPECIFIED) {
+      if (field.type === "Boolean") {
         return (
           <div className="flex items-center space-x-2">
             <Checkbox
@@ -194,67 +526,91 @@ export function FilterPanel({
             </label>
           </div>
         );
+      }
+      return (
+        <Select
+          value={getFilterValue(field) || undefined}
+          onValueChange={(value) => handleValueFilter(field, value)}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Any" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="true">Has a value</SelectItem>
+            <SelectItem value="false">Is empty</SelectItem>
+          </SelectContent>
+        </Select>
+      );
+    }
 
-      case "Enum":
+    switch (field.type) {
+      case "String":
+      case "RichText":
+        return (
+          <Input
+            placeholder={field.placeholder || `Filter ${field.title}...`}
+            value={getTextValue(field)}
+            onChange={(e) => handleTextFilter(field, e.target.value)}
+          />
+        );
+
+      case "Integer":
+        return (
+          <Input
+            type="number"
+            placeholder={field.placeholder || `Filter ${field.title}...`}
+            value={getTextValue(field)}
+            onChange={(e) => handleTextFilter(field, e.target.value)}
+          />
+        );
+
+      case "Boolean":
         return (
           <Select
             value={getFilterValue(field) || undefined}
-            onValueChange={(value) => handleEnumFilter(field, value)}
+            onValueChange={(value) => handleValueFilter(field, value)}
           >
             <SelectTrigger>
               <SelectValue placeholder={`Select ${field.title}`} />
             </SelectTrigger>
             <SelectContent>
-              {Object.entries(field.enumValues).map(([key, label]) => (
-                <SelectItem key={key} value={key}>
-                  {label}
-                </SelectItem>
-              ))}
+              <SelectItem value="true">Yes</SelectItem>
+              <SelectItem value="false">No</SelectItem>
             </SelectContent>
           </Select>
         );
 
+      case "Enum":
+        return (
+          <EnumSelect
+            field={field}
+            id={`filter-${fieldName}`}
+            value={getFilterValue(field)}
+            onChange={(value) => handleValueFilter(field, value)}
+          />
+        );
+
+      case "Relation":
+        return (
+          <RelationSelect
+            field={field}
+            id={`filter-${fieldName}`}
+            value={getFilterValue(field)}
+            onChange={(value) => handleValueFilter(field, value === null ? "" : String(value))}
+          />
+        );
+
       case "Date":
       case "DateSec":
       case "DateTimeSec":
-        const currentRange = dateRanges[fieldName] || {};
-        return (
-          <Popover>
-            <PopoverTrigger asChild>
-              <Button variant="outline" className="w-full justify-start text-left font-normal">
-                {currentRange.from ? (
-                  currentRange.to ? (
-                    <>
-                      {format(currentRange.from, "LLL dd, y")} -{" "}
-                      {format(currentRange.to, "LLL dd, y")}
-                    </>
-                  ) : (
-                    format(currentRange.from, "LLL dd, y")
-                  )
-                ) : (
-                  <span>Pick a date range</span>
-                )}
-              </Button>
-            </PopoverTrigger>
-            <PopoverContent className="w-auto p-0" align="start">
-              <Calendar
-                mode="range"
-                selected={currentRange}
-                onSelect={(range) =>
-                  handleDateRangeFilter(field, range || {})
-                }
-                numberOfMonths={2}
-              />
-            </PopoverContent>
-          </Popover>
-        );
+        return renderDateInput(field);
 
       case "Image":
         return (
           <Input
             placeholder="Filter by image URL..."
-            value={getFilterValue(field)}
-            onChange={(e) => handleStringFilter(field, e.target.value)}
+            value={getTextValue(field)}
+            onChange={(e) => handleTextFilter(field, e.target.value)}
           />
         );
 
@@ -298,14 +654,50 @@ export function FilterPanel({
 
       {isExpanded && (
         <div className="p-4 border-t space-y-4">
-          {filterableFields.map((field) => (
+          <div className="flex justify-end">
+            <div className="flex rounded-md border">
+              <Button
+                variant={isAdvanced ? "ghost" : "default"}
+                size="sm"
+                className="h-7 text-xs"
+                disabled={isGrouped}
+                title={isGrouped ? "Remove OR groups to use simple filters" : undefined}
+                onClick={() => setIsAdvanced(false)}
+              >
+                Simple
+              </Button>
+              <Button
+                variant={isAdvanced ? "default" : "ghost"}
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => setIsAdvanced(true)}
+              >
+                Advanced filter
+              </Button>
+            </div>
+          </div>
+
+          {isAdvanced ? (
+            <AdvancedFilter
+              fields={fields}
+              queryBuilder={queryBuilder}
+              onFilterChange={applyFilterChange}
+              textDebounceMs={textDebounceMs}
+            />
+          ) : filterableFields.map((field) => (
             <div key={field.name} className="space-y-2">
-              {field.type !== "Boolean" && (
+              {!(
+                field.type === "Boolean" &&
+                getRowOperator(field) === CriteriaOperation.SPECIFIED
+              ) && (
                 <Label htmlFor={`filter-${field.accessor || field.name}`}>
                   {field.title}
                 </Label>
               )}
-              {renderFilterInput(field)}
+              <div className="flex items-center gap-2">
+                {renderOperatorPicker(field)}
+                <div className="flex-1">{renderFilterInput(field)}</div>
+              </div>
             </div>
           ))}
         </div>
@@ -1,18 +1,9 @@
 "use client";
 
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import { Field } from "@/lib/types/field.types";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Checkbox } from "@/components/ui/checkbox";
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
 import {
   Dialog,
   DialogContent,
@@ -20,11 +11,10 @@ import {
   DialogTitle,
   DialogFooter,
 } from "@/components/ui/dialog";
-import { format } from "date-fns";
-import { Calendar } from "@/components/ui/calendar";
-import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { CalendarIcon } from "lucide-react";
-import { cn } from "@/lib/utils/cn";
+import { buildFormSchema, validateRecord } from "@/lib/utils/validation";
+import { parseServerValidationErrors } from "@/lib/utils/server-errors";
+import { UploadHandlers } from "@/lib/types/upload.types";
+import { FieldInput } from "./field-input";
 
 interface FormProps {
   data?: any;
@@ -33,6 +23,8 @@ interface FormProps {
   onClose: () => void;
   onSubmit: (data: any) => void | Promise<void>;
   idField?: string;
+  /** Upload handlers for Image fields, resolved by uploadConfig */
+  uploadHandlers?: UploadHandlers;
 }
 
 export function Form({
@@ -42,12 +34,23 @@ export function Form({
   onClose,
   onSubmit,
   idField = "id",
+  uploadHandlers,
 }: FormProps) {
   const [formData, setFormData] = useState<any>({});
   const [modifiedFields, setModifiedFields] = useState<Set<string>>(new Set());
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitErrors, setSubmitErrors] = useState<string[]>([]);
+  const [serverErrors, setServerErrors] = useState<Record<string, string>>({});
+  // Image fields with an upload in flight; their value is not final yet
+  const [uploadingFields, setUploadingFields] = useState<Set<string>>(new Set());
 
   const editableFields = fields.filter((f) => f.editable);
+  const schema = useMemo(
+    () => buildFormSchema(fields.filter((f) => f.editable)),
+    [fields]
+  );
+  const errors = useMemo(() => validateRecord(schema, formData), [schema, formData]);
+  const errorCount = Object.keys(errors).length;
 
   // Initialize form data
   useEffect(() => {
@@ -64,20 +67,48 @@ export function Form({
       setFormData(defaults);
     }
     setModifiedFields(new Set());
+    setSubmitErrors([]);
+    setServerErrors({});
   }, [data, open]);
 
   const handleFieldChange = (fieldName: string, value: any) => {
     setFormData({ ...formData, [fieldName]: value });
     setModifiedFields(new Set(modifiedFields).add(fieldName));
+    // A changed value may fix what the server rejected
+    if (serverErrors[fieldName]) {
+      const { [fieldName]: _, ...rest } = serverErrors;
+      setServerErrors(rest);
+    }
+  };
+
+  const handleUploadingChange = (fieldName: string, uploading: boolean) => {
+    setUploadingFields((prev) => {
+      const next = new Set(prev);
+      if (uploading) next.add(fieldName);
+      else next.delete(fieldName);
+      return next;
+    });
   };
 
+  const isUploading = uploadingFields.size > 0;
+
   const handleSubmit = async () => {
+    if (errorCount > 0 || isUploading) return;
     setIsSubmitting(true);
+    setSubmitErrors([]);
+    setServerErrors({});
     try {
       await onSubmit(formData);
       onClose();
     } catch (error) {
-      console.error("Form submission error:", error);
+      // Keep the dialog open; field errors go under their inputs, the rest in the banner
+      const { fieldErrors, formErrors } = parseServerValidationErrors(error, editableFields);
+      setServerErrors(fieldErrors);
+      setSubmitErrors(
+        formErrors.length > 0
+          ? formErrors
+          : ["Some values were rejected. Check the highlighted fields."]
+      );
     } finally {
       setIsSubmitting(false);
     }
@@ -90,184 +121,6 @@ export function Form({
     setModifiedFields(new Set());
   };
 
-  const getFieldValue = (field: Field): any => {
-    return formData[field.name];
-  };
-
-  const renderFieldInput = (field: Field) => {
-    const value = getFieldValue(field);
-    const isModified = modifiedFields.has(field.name);
-
-    // Use custom renderer if provided
-    if (field.renderEdit) {
-      return field.renderEdit(value, (newValue) =>
-        handleFieldChange(field.name, newValue)
-      );
-    }
-
-    switch (field.type) {
-      case "String":
-        return (
-          <Input
-            value={value || ""}
-            onChange={(e) => handleFieldChange(field.name, e.target.value)}
-            placeholder={field.placeholder}
-          />
-        );
-
-      case "Integer":
-        return (
-          <Input
-            type="number"
-            value={value || ""}
-            onChange={(e) =>
-              handleFieldChange(field.name, parseInt(e.target.value, 10) || 0)
-            }
-            placeholder={field.placeholder}
-          />
-        );
-
-      case "Boolean":
-        return (
-          <div className="flex items-center space-x-2">
-            <Checkbox
-              id={`form-${field.name}`}
-              checked={value || false}
-              onCheckedChange={(checked) =>
-                handleFieldChange(field.name, checked)
-              }
-            />
-            <label htmlFor={`form-${field.name}`} className="text-sm">
-              {field.title}
-            </label>
-          </div>
-        );
-
-      case "Enum":
-        return (
-          <Select
-            value={value || undefined}
-            onValueChange={(val) => handleFieldChange(field.name, val)}
-          >
-            <SelectTrigger>
-              <SelectValue placeholder={`Select ${field.title}`} />
-            </SelectTrigger>
-            <SelectContent>
-              {Object.entries(field.enumValues).map(([key, label]) => (
-                <SelectItem key={key} value={key}>
-                  {label}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-        );
-
-      case "Date":
-        return (
-          <Popover>
-            <PopoverTrigger asChild>
-              <Button
-                variant="outline"
-                className={cn(
-                  "w-full justify-start text-left font-normal",
-                  !value && "text-muted-foreground"
-                )}
-              >
-                <CalendarIcon className="mr-2 h-4 w-4" />
-                {value ? format(new Date(value), "PPP") : "Pick a date"}
-              </Button>
-            </PopoverTrigger>
-            <PopoverContent className="w-auto p-0">
-              <Calendar
-                mode="single"
-                selected={value ? new Date(value) : undefined}
-                onSelect={(date) =>
-                  handleFieldChange(field.name, date?.toISOString())
-                }
-              />
-            </PopoverContent>
-          </Popover>
-        );
-
-      case "DateSec":
-      case "DateTimeSec":
-        const dateValue = value ? new Date(value * 1000) : undefined;
-        return (
-          <Popover>
-            <PopoverTrigger asChild>
-              <Button
-                variant="outline"
-                className={cn(
-                  "w-full justify-start text-left font-normal",
-                  !value && "text-muted-foreground"
-                )}
-              >
-                <CalendarIcon className="mr-2 h-4 w-4" />
-                {value ? format(dateValue!, "PPP") : "Pick a date"}
-              </Button>
-            </PopoverTrigger>
-            <PopoverContent className="w-auto p-0">
-              <Calendar
-                mode="single"
-                selected={dateValue}
-                onSelect={(date) =>
-                  handleFieldChange(
-                    field.name,
-                    date ? Math.floor(date.getTime() / 1000) : null
-                  )
-                }
-              />
-            </PopoverContent>
-          </Popover>
-        );
-
-      case "Image":
-        return (
-          <div className="space-y-2">
-            <Input
-              type="file"
-              accept={field.allowedTypes?.join(",") || "image/*"}
-              onChange={async (e) => {
-                const file = e.target.files?.[0];
-                if (file) {
-                  // In a real implementation, you would upload the file here
-                  // For now, just store the file name
-                  handleFieldChange(field.name, file.name);
-                }
-              }}
-            />
-            {value && (
-              <img
-                src={value}
-                alt={field.title}
-                className="max-w-xs max-h-32 rounded border"
-              />
-            )}
-          </div>
-        );
-
-      case "RichText":
-        return (
-          <textarea
-            className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-            value={value || ""}
-            onChange={(e) => handleFieldChange(field.name, e.target.value)}
-            placeholder={field.placeholder}
-            rows={5}
-          />
-        );
-
-      default:
-        return (
-          <Input
-            value={value || ""}
-            onChange={(e) => handleFieldChange(field.name, e.target.value)}
-            placeholder={field.placeholder}
-          />
-        );
-    }
-  };
-
   const isNewRecord = !data || !data[idField];
 
   return (
@@ -279,9 +132,26 @@ export function Form({
           </DialogTitle>
         </DialogHeader>
 
+        {submitErrors.length > 0 && (
+          <div className="rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+            {submitErrors.length === 1 ? (
+              submitErrors[0]
+            ) : (
+              <ul className="list-disc pl-4 space-y-1">
+                {submitErrors.map((message, idx) => (
+                  <li key={idx}>{message}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
         <div className="space-y-4 mt-4">
           {editableFields.map((field) => {
             const isModified = modifiedFields.has(field.name);
+            // Untouched fields of a new record only count towards the footer hint
+            const error =
+              serverErrors[field.name] || ((isModified || !isNewRecord) && errors[field.name]);
             return (
               <div key={field.name} className="space-y-2">
                 {field.type !== "Boolean" && (
@@ -290,19 +160,40 @@ export function Form({
                     {field.title}
                   </Label>
                 )}
-                {renderFieldInput(field)}
+                <FieldInput
+                  field={field}
+                  id={`form-${field.name}`}
+                  value={formData[field.name]}
+                  onChange={(value) => handleFieldChange(field.name, value)}
+                  uploadHandlers={uploadHandlers}
+                  onUploadingChange={(uploading) =>
+                    handleUploadingChange(field.name, uploading)
+                  }
+                />
+                {error && <p className="text-sm text-destructive">{error}</p>}
               </div>
             );
           })}
         </div>
 
-        <DialogFooter className="gap-2">
+        <DialogFooter className="gap-2 sm:items-center">
+          {errorCount > 0 ? (
+            <span className="text-sm text-muted-foreground sm:mr-auto">
+              {errorCount} field{errorCount === 1 ? " needs" : "s need"} attention
+            </span>
+          ) : (
+            isUploading && (
+              <span className="text-sm text-muted-foreground sm:mr-auto">
+                Waiting for upload to finish...
+              </span>
+            )
+          )}
           {!isNewRecord && modifiedFields.size > 0 && (
             <Button variant="outline" onClick={handleRollback}>
               Rollback Changes
             </Button>
           )}
-          <Button onClick={handleSubmit} disabled={isSubmitting}>
+          <Button onClick={handleSubmit} disabled={isSubmitting || errorCount > 0 || isUploading}>
             {isSubmitting
               ? "Saving..."
               : isNewRecord
@@ -0,0 +1,191 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { ImageIcon, RefreshCw, Trash2, Upload, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils/cn";
+import { ImageField } from "@/lib/types/field.types";
+import { UploadHandler } from "@/lib/types/upload.types";
+import { validateUploadFile } from "@/lib/utils/upload";
+
+interface ImageUploadProps {
+  field: ImageField;
+  /** Current image URL */
+  value?: string | null;
+  onChange: (url: string | null) => void;
+  /** Handler resolved from field.uploadConfig */
+  handler?: UploadHandler;
+  id?: string;
+  /** Called when an upload starts and once it settles */
+  onUploadingChange?: (uploading: boolean) => void;
+}
+
+/**
+ * Image picker with drag-and-drop, type/size checks, upload progress,
+ * preview and replace/remove actions
+ */
+export function ImageUpload({
+  field,
+  value,
+  onChange,
+  handler,
+  id,
+  onUploadingChange,
+}: ImageUploadProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [localPreview, setLocalPreview] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Cancel a running upload on unmount
+  useEffect(
+    () => () => {
+      abortRef.current?.abort();
+    },
+    []
+  );
+
+  // Release the object URL of the local preview once replaced
+  useEffect(
+    () => () => {
+      if (localPreview) URL.revokeObjectURL(localPreview);
+    },
+    [localPreview]
+  );
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    const invalid = validateUploadFile(file, {
+      maxSize: field.maxSize,
+      allowedTypes: field.allowedTypes,
+    });
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+    if (!handler) {
+      setError(`No upload handler configured for "${field.uploadConfig}"`);
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setLocalPreview(URL.createObjectURL(file));
+    setProgress(0);
+    onUploadingChange?.(true);
+    try {
+      const url = await handler.upload(file, {
+        onProgress: setProgress,
+        signal: controller.signal,
+      });
+      onChange(url);
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+      setLocalPreview(null);
+      onUploadingChange?.(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files?.[0];
+    if (file && progress === null) {
+      handleFile(file);
+    }
+  };
+
+  const openPicker = () => inputRef.current?.click();
+  const preview = localPreview || value;
+  const isUploading = progress !== null;
+
+  return (
+    // Dropping on the preview replaces the image
+    <div
+      className="space-y-2"
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+    >
+      <input
+        ref={inputRef}
+        id={id}
+        type="file"
+        className="hidden"
+        accept={field.allowedTypes?.join(",") || "image/*"}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          // Reset so picking the same file again still fires onChange
+          e.target.value = "";
+          if (file) handleFile(file);
+        }}
+      />
+
+      {preview ? (
+        <div className="flex items-start gap-3">
+          <div className="relative">
+            <img
+              src={preview}
+              alt={field.title}
+              className={cn(
+                "max-w-xs max-h-32 rounded border",
+                isUploading && "opacity-50",
+                isDragging && "ring-2 ring-primary"
+              )}
+            />
+            {isUploading && (
+              <div className="absolute inset-x-2 bottom-2 h-1.5 overflow-hidden rounded bg-muted">
+                <div className="h-full bg-primary transition-all" style={{ width: `${progress}%` }} />
+              </div>
+            )}
+          </div>
+          <div className="flex flex-col gap-2">
+            {isUploading ? (
+              <Button variant="outline" size="sm" onClick={() => abortRef.current?.abort()}>
+                <X className="h-4 w-4 mr-2" />
+                Cancel ({progress}%)
+              </Button>
+            ) : (
+              <>
+                <Button variant="outline" size="sm" onClick={openPicker}>
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  Replace
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => onChange(null)}>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Remove
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      ) : (
+        <div
+          role="button"
+          tabIndex={0}
+          className={cn(
+            "flex cursor-pointer flex-col items-center justify-center gap-2 rounded-md border border-dashed p-6 text-sm text-muted-foreground transition-colors",
+            isDragging && "border-primary bg-primary/5"
+          )}
+          onClick={openPicker}
+          onKeyDown={(e) => (e.key === "Enter" || e.key === " ") && openPicker()}
+        >
+          {isDragging ? <Upload className="h-6 w-6" /> : <ImageIcon className="h-6 w-6" />}
+          <span>Drop an image here or click to browse</span>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -4,3 +4,8 @@ export { Pagination } from "./pagination";
 export { DetailView } from "./detail-view";
 export { Form } from "./form";
 
+export { ConfirmDialog } from "./confirm-dialog";
+export { SavedViewsMenu } from "./saved-views";
+export { ExportMenu } from "./export-menu";
+export { BulkActionBar } from "./bulk-action-bar";
+export { Toaster } from "./toaster";
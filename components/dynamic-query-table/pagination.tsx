@@ -10,27 +10,36 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { SpringPage } from "@/lib/types/field.types";
+import { DynamicQueryState } from "@/lib/hooks/use-dynamic-query";
+import { isSpringPage } from "@/lib/utils/pagination";
 
 interface PaginationProps {
-  page: SpringPage<any>;
-  onPageChange: (page: number) => void;
-  onPageSizeChange: (pageSize: number) => void;
+  /** Query state from useDynamicQuery; renders nothing until there are results */
+  query: DynamicQueryState;
 }
 
-export function Pagination({
-  page,
-  onPageChange,
-  onPageSizeChange,
-}: PaginationProps) {
+/**
+ * Page numbers need counts and random access: a Slice response or keyset paging
+ * only shows previous/next
+ */
+export function Pagination({ query }: PaginationProps) {
+  const page = query.data;
+  if (!page || (page.first && page.content.length === 0)) {
+    return null;
+  }
+
+  const onPageChange = query.setPage;
+  const onPageSizeChange = query.setPageSize;
   const currentPage = page.number;
-  const totalPages = page.totalPages;
-  const totalElements = page.totalElements;
+  const totalPages = isSpringPage(page) ? page.totalPages : undefined;
+  const totalElements = isSpringPage(page) ? page.totalElements : undefined;
+  // Keyset pages can't be opened out of order, even when the counts are known
+  const numberedPages = query.pagination !== "keyset" ? totalPages : undefined;
   const pageSize = page.size;
   const startItem = currentPage * pageSize + 1;
-  const endItem = Math.min((currentPage + 1) * pageSize, totalElements);
+  const endItem = currentPage * pageSize + page.content.length;
 
-  const getPageNumbers = () => {
+  const getPageNumbers = (totalPages: number) => {
     const pages: (number | string)[] = [];
     const maxVisible = 7;
 
@@ -74,8 +83,12 @@ export function Pagination({
     <div className="flex items-center justify-between px-2 py-4">
       <div className="flex items-center gap-4">
         <div className="text-sm text-muted-foreground">
-          Showing {startItem} to {endItem} of {totalElements} results
+          Showing {startItem} to {endItem}
+          {totalElements !== undefined && ` of ${totalElements} results`}
         </div>
+        {query.loadMoreError && (
+          <div className="text-sm text-destructive">{query.loadMoreError.message}</div>
+        )}
         <div className="flex items-center gap-2">
           <span className="text-sm text-muted-foreground">Items per page:</span>
           <Select
@@ -105,33 +118,40 @@ export function Pagination({
           <ChevronLeft className="h-4 w-4" />
         </Button>
 
-        {getPageNumbers().map((pageNum, idx) => {
-          if (pageNum === "...") {
+        {numberedPages === undefined ? (
+          <span className="px-2 text-sm text-muted-foreground">
+            Page {currentPage + 1}
+            {totalPages !== undefined && ` of ${totalPages}`}
+          </span>
+        ) : (
+          getPageNumbers(numberedPages).map((pageNum, idx) => {
+            if (pageNum === "...") {
+              return (
+                <span key={`ellipsis-${idx}`} className="px-2">
+                  ...
+                </span>
+              );
+            }
+
+            const isCurrentPage = pageNum === currentPage;
             return (
-              <span key={`ellipsis-${idx}`} className="px-2">
-                ...
-              </span>
+              <Button
+                key={pageNum}
+                variant={isCurrentPage ? "default" : "outline"}
+                size="icon"
+                onClick={() => onPageChange(pageNum as number)}
+              >
+                {(pageNum as number) + 1}
+              </Button>
             );
-          }
-
-          const isCurrentPage = pageNum === currentPage;
-          return (
-            <Button
-              key={pageNum}
-              variant={isCurrentPage ? "default" : "outline"}
-              size="icon"
-              onClick={() => onPageChange(pageNum as number)}
-            >
-              {(pageNum as number) + 1}
-            </Button>
-          );
-        })}
+          })
+        )}
 
         <Button
           variant="outline"
           size="icon"
           onClick={() => onPageChange(currentPage + 1)}
-          disabled={currentPage >= totalPages - 1}
+          disabled={page.last}
         >
           <ChevronRight className="h-4 w-4" />
         </Button>
@@ -0,0 +1,231 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { Check, ChevronsUpDown, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { cn } from "@/lib/utils/cn";
+import { RelationField } from "@/lib/types/field.types";
+import { EntityId } from "@/lib/types/data-source.types";
+import {
+  RelationOption,
+  getRelationLabel,
+  getRelationLabels,
+  loadRelationLabels,
+  searchRelationOptions,
+} from "@/lib/utils/relation";
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+interface RelationSelectProps {
+  field: RelationField;
+  /** Selected id, or ids when `multiple` */
+  value: EntityId | EntityId[] | null | undefined;
+  /** Called with the picked id (null when cleared), or the id list when `multiple` */
+  onChange: (value: any) => void;
+  /** Pick several entities (e.g. IN / NOT_IN filters) */
+  multiple?: boolean;
+  id?: string;
+  placeholder?: string;
+  /** Open the picker on mount, used by inline cell editing */
+  autoFocus?: boolean;
+}
+
+/**
+ * Searchable combobox over a Relation field's endpoint. Options are searched
+ * server-side as the user types; labels of the selected ids are looked up once.
+ */
+export function RelationSelect({
+  field,
+  value,
+  onChange,
+  multiple = false,
+  id,
+  placeholder,
+  autoFocus = false,
+}: RelationSelectProps) {
+  const [open, setOpen] = useState(autoFocus);
+  const [search, setSearch] = useState("");
+  const [options, setOptions] = useState<RelationOption[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Loaded labels of the selected ids, by id
+  const [labels, setLabels] = useState<Record<string, string>>({});
+  const requestRef = useRef(0);
+  // Read by the effects: an inline field object must not restart searches on every render
+  const fieldRef = useRef(field);
+  fieldRef.current = field;
+
+  const selectedIds: EntityId[] = multiple
+    ? Array.isArray(value)
+      ? value
+      : []
+    : value === null || value === undefined || value === "" || Array.isArray(value)
+      ? []
+      : [value];
+  const selectedKey = JSON.stringify(selectedIds.map(String));
+
+  useEffect(() => {
+    const ids: string[] = JSON.parse(selectedKey);
+    if (ids.length === 0) return;
+    let cancelled = false;
+    const relationField = fieldRef.current;
+    loadRelationLabels(relationField, ids)
+      .then(() => {
+        if (!cancelled) setLabels(getRelationLabels(relationField, ids));
+      })
+      .catch(() => {
+        // Ids stay visible as they are
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedKey]);
+
+  // Search while open, debounced; results of outdated requests are dropped
+  useEffect(() => {
+    if (!open) return;
+    const requestId = ++requestRef.current;
+    setLoading(true);
+    const timer = setTimeout(async () => {
+      setError(null);
+      try {
+        const result = await searchRelationOptions(fieldRef.current, search);
+        if (requestId === requestRef.current) setOptions(result);
+      } catch (err) {
+        if (requestId === requestRef.current) {
+          setError(err instanceof Error ? err.message : "Failed to load options");
+        }
+      } finally {
+        if (requestId === requestRef.current) setLoading(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [open, search]);
+
+  const labelOf = (entityId: EntityId) =>
+    labels[String(entityId)] ?? getRelationLabel(field, entityId) ?? String(entityId);
+  const isSelected = (entityId: EntityId) => selectedIds.some((s) => String(s) === String(entityId));
+
+  const handleSelect = (option: RelationOption) => {
+    if (multiple) {
+      const ids = selectedIds.map(String);
+      const optionId = String(option.value);
+      onChange(ids.includes(optionId) ? ids.filter((s) => s !== optionId) : [...ids, optionId]);
+    } else {
+      onChange(option.value);
+      setOpen(false);
+    }
+  };
+
+  const removeId = (entityId: EntityId) =>
+    onChange(selectedIds.map(String).filter((s) => s !== String(entityId)));
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) setSearch("");
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button
+          id={id}
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className="h-auto min-h-10 w-full justify-between font-normal"
+        >
+          {selectedIds.length === 0 ? (
+            <span className="text-muted-foreground">
+              {placeholder || `Select ${field.title}`}
+            </span>
+          ) : multiple ? (
+            <span className="flex flex-wrap gap-1">
+              {selectedIds.map((entityId) => (
+                <Badge key={String(entityId)} variant="secondary" className="gap-1">
+                  {labelOf(entityId)}
+                  <span
+                    role="button"
+                    aria-label={`Remove ${labelOf(entityId)}`}
+                    className="rounded-sm hover:bg-muted-foreground/20"
+                    onPointerDown={(e) => e.stopPropagation()}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      removeId(entityId);
+                    }}
+                  >
+                    <X className="h-3 w-3" />
+                  </span>
+                </Badge>
+              ))}
+            </span>
+          ) : (
+            <span className="truncate">{labelOf(selectedIds[0])}</span>
+          )}
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] min-w-[220px] p-0" align="start">
+        <Command shouldFilter={false}>
+          <CommandInput
+            placeholder={`Search ${field.title}...`}
+            value={search}
+            onValueChange={setSearch}
+          />
+          <CommandList>
+            {loading && (
+              <div className="py-6 text-center text-sm text-muted-foreground">Loading...</div>
+            )}
+            {error && !loading && (
+              <div className="py-6 text-center text-sm text-destructive">{error}</div>
+            )}
+            {!loading && !error && <CommandEmpty>No results found.</CommandEmpty>}
+            {!loading && !error && (
+              <CommandGroup>
+                {!multiple && selectedIds.length > 0 && !search && (
+                  <CommandItem
+                    value="__clear"
+                    className="text-muted-foreground"
+                    onSelect={() => {
+                      onChange(null);
+                      setOpen(false);
+                    }}
+                  >
+                    <X className="mr-2 h-4 w-4" />
+                    Clear selection
+                  </CommandItem>
+                )}
+                {options.map((option) => (
+                  <CommandItem
+                    key={String(option.value)}
+                    value={String(option.value)}
+                    onSelect={() => handleSelect(option)}
+                  >
+                    <Check
+                      className={cn(
+                        "mr-2 h-4 w-4",
+                        isSelected(option.value) ? "opacity-100" : "opacity-0"
+                      )}
+                    />
+                    {option.label}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
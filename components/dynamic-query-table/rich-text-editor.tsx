@@ -0,0 +1,252 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  Bold,
+  Code,
+  Heading2,
+  Italic,
+  Link,
+  List,
+  ListOrdered,
+  LucideIcon,
+  Quote,
+  RemoveFormatting,
+  Strikethrough,
+  Underline,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils/cn";
+import { RichTextEditorConfig, RichTextToolbarItem } from "@/lib/types/field.types";
+import { DEFAULT_ALLOWED_TAGS, htmlToText, isSafeUrl, sanitizeHtml } from "@/lib/utils/sanitize";
+
+/**
+ * Typography for sanitized rich text (Tailwind's preflight resets lists, headings, etc.)
+ */
+export const richTextContentClassName =
+  "[&_p]:my-1 [&_h1]:text-xl [&_h1]:font-semibold [&_h2]:text-lg [&_h2]:font-semibold [&_h3]:font-semibold [&_ul]:list-disc [&_ul]:pl-6 [&_ol]:list-decimal [&_ol]:pl-6 [&_blockquote]:border-l-2 [&_blockquote]:pl-3 [&_blockquote]:text-muted-foreground [&_pre]:rounded [&_pre]:bg-muted [&_pre]:p-2 [&_pre]:font-mono [&_pre]:text-xs [&_code]:font-mono [&_a]:text-blue-500 [&_a]:underline";
+
+interface ToolbarItemDefinition {
+  label: string;
+  icon: LucideIcon;
+  /** Tags the command produces; the button is hidden when one of them is not allowed */
+  tags: string[];
+  /** Block tag applied with formatBlock (toggles back to a paragraph) */
+  block?: string;
+  /** execCommand name for inline and list commands */
+  command?: string;
+}
+
+const TOOLBAR_ITEMS: Record<RichTextToolbarItem, ToolbarItemDefinition> = {
+  bold: { label: "Bold", icon: Bold, tags: ["b"], command: "bold" },
+  italic: { label: "Italic", icon: Italic, tags: ["i"], command: "italic" },
+  underline: { label: "Underline", icon: Underline, tags: ["u"], command: "underline" },
+  strike: { label: "Strikethrough", icon: Strikethrough, tags: ["strike"], command: "strikeThrough" },
+  heading: { label: "Heading", icon: Heading2, tags: ["h2", "p"], block: "h2" },
+  bulletList: { label: "Bulleted list", icon: List, tags: ["ul", "li"], command: "insertUnorderedList" },
+  orderedList: { label: "Numbered list", icon: ListOrdered, tags: ["ol", "li"], command: "insertOrderedList" },
+  blockquote: { label: "Quote", icon: Quote, tags: ["blockquote", "p"], block: "blockquote" },
+  code: { label: "Code block", icon: Code, tags: ["pre", "p"], block: "pre" },
+  link: { label: "Link", icon: Link, tags: ["a"] },
+  clear: { label: "Clear formatting", icon: RemoveFormatting, tags: [] },
+};
+
+const DEFAULT_TOOLBAR = Object.keys(TOOLBAR_ITEMS) as RichTextToolbarItem[];
+
+interface RichTextEditorProps {
+  /** Current HTML value */
+  value?: string | null;
+  /** Called with sanitized HTML ("" when the editor is empty) */
+  onChange: (html: string) => void;
+  config?: RichTextEditorConfig;
+  placeholder?: string;
+  id?: string;
+  /** Focus the editor with the caret at the end on mount */
+  autoFocus?: boolean;
+}
+
+/**
+ * WYSIWYG editor for RichText fields. Pasted and typed markup is sanitized against
+ * editorConfig.allowedTags, and toolbar buttons producing other tags are hidden.
+ */
+export function RichTextEditor({
+  value,
+  onChange,
+  config,
+  placeholder,
+  id,
+  autoFocus = false,
+}: RichTextEditorProps) {
+  const editorRef = useRef<HTMLDivElement>(null);
+  // Last HTML written to or emitted from the editor, to avoid resetting the caret
+  const lastHtmlRef = useRef<string | null>(null);
+  // Focus is only taken once, not again when autoFocus toggles
+  const autoFocusedRef = useRef(false);
+  const [active, setActive] = useState<Set<RichTextToolbarItem>>(new Set());
+  const [isEmpty, setIsEmpty] = useState(!htmlToText(value));
+
+  // Field configs are often inline, so the tags are memoized by their content
+  const allowedKey = JSON.stringify(config?.allowedTags || DEFAULT_ALLOWED_TAGS);
+  const allowedTags = useMemo<string[]>(() => JSON.parse(allowedKey), [allowedKey]);
+  const toolbar = useMemo(
+    () =>
+      (config?.toolbar || DEFAULT_TOOLBAR).filter((item) =>
+        TOOLBAR_ITEMS[item]?.tags.every((tag) => allowedTags.includes(tag))
+      ),
+    [config?.toolbar, allowedTags]
+  );
+
+  // Sync external value changes (initial value, rollback) into the DOM
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    const html = sanitizeHtml(value, allowedTags);
+    if (html !== lastHtmlRef.current) {
+      editor.innerHTML = html;
+      lastHtmlRef.current = html;
+      setIsEmpty(!htmlToText(html));
+    }
+  }, [value, allowedTags]);
+
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!autoFocus || !editor || autoFocusedRef.current) return;
+    autoFocusedRef.current = true;
+    editor.focus();
+    const range = document.createRange();
+    range.selectNodeContents(editor);
+    range.collapse(false);
+    const selection = window.getSelection();
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+  }, [autoFocus]);
+
+  const updateActive = useCallback(() => {
+    const editor = editorRef.current;
+    const selection = window.getSelection();
+    if (!editor || !selection?.anchorNode || !editor.contains(selection.anchorNode)) return;
+
+    const block = String(document.queryCommandValue("formatBlock") || "").toLowerCase();
+    const next = new Set<RichTextToolbarItem>();
+    (Object.keys(TOOLBAR_ITEMS) as RichTextToolbarItem[]).forEach((item) => {
+      const definition = TOOLBAR_ITEMS[item];
+      const isActive = definition.block
+        ? block === definition.block
+        : !!definition.command && document.queryCommandState(definition.command);
+      if (isActive) {
+        next.add(item);
+      }
+    });
+    setActive(next);
+  }, []);
+
+  useEffect(() => {
+    document.addEventListener("selectionchange", updateActive);
+    return () => document.removeEventListener("selectionchange", updateActive);
+  }, [updateActive]);
+
+  const emitChange = () => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    const html = sanitizeHtml(editor.innerHTML, allowedTags);
+    // Deleting everything leaves an empty block or <br> behind
+    const next = htmlToText(html) ? html : "";
+    lastHtmlRef.current = next;
+    setIsEmpty(!next);
+    onChange(next);
+  };
+
+  const runItem = (item: RichTextToolbarItem) => {
+    const definition = TOOLBAR_ITEMS[item];
+    editorRef.current?.focus();
+    // New lines and toggled-off blocks become <p> instead of the browser default <div>
+    document.execCommand("defaultParagraphSeparator", false, "p");
+
+    if (definition.block) {
+      document.execCommand("formatBlock", false, active.has(item) ? "p" : definition.block);
+    } else if (definition.command) {
+      document.execCommand(definition.command);
+    } else if (item === "link") {
+      const url = window.prompt("Link URL", "https://");
+      if (url === null) return;
+      if (!url.trim()) {
+        document.execCommand("unlink");
+      } else if (isSafeUrl(url)) {
+        document.execCommand("createLink", false, url.trim());
+      }
+    } else if (item === "clear") {
+      document.execCommand("removeFormat");
+      document.execCommand("unlink");
+      document.execCommand("formatBlock", false, "p");
+    }
+
+    emitChange();
+    updateActive();
+  };
+
+  // Pasted/dropped markup is sanitized before it reaches the DOM
+  const insertTransfer = (data: DataTransfer) => {
+    const html = data.getData("text/html");
+    if (html) {
+      document.execCommand("insertHTML", false, sanitizeHtml(html, allowedTags));
+    } else {
+      document.execCommand("insertText", false, data.getData("text/plain"));
+    }
+    emitChange();
+  };
+
+  return (
+    <div className="rounded-md border border-input bg-background ring-offset-background focus-within:ring-2 focus-within:ring-ring focus-within:ring-offset-2">
+      {toolbar.length > 0 && (
+        <div className="flex flex-wrap gap-0.5 border-b p-1">
+          {toolbar.map((item) => {
+            const { label, icon: Icon } = TOOLBAR_ITEMS[item];
+            return (
+              <Button
+                key={item}
+                type="button"
+                variant="ghost"
+                size="icon"
+                className={cn("h-7 w-7", active.has(item) && "bg-accent text-accent-foreground")}
+                title={label}
+                aria-label={label}
+                aria-pressed={active.has(item)}
+                // Keep the editor's selection while clicking the toolbar
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => runItem(item)}
+              >
+                <Icon className="h-4 w-4" />
+              </Button>
+            );
+          })}
+        </div>
+      )}
+      <div className="relative">
+        {isEmpty && placeholder && (
+          <div className="pointer-events-none absolute left-3 top-2 text-sm text-muted-foreground">
+            {placeholder}
+          </div>
+        )}
+        <div
+          ref={editorRef}
+          id={id}
+          role="textbox"
+          aria-multiline="true"
+          contentEditable
+          suppressContentEditableWarning
+          className={cn("overflow-y-auto px-3 py-2 text-sm focus:outline-none", richTextContentClassName)}
+          style={{ minHeight: config?.minHeight ?? 120 }}
+          onInput={emitChange}
+          onPaste={(e) => {
+            e.preventDefault();
+            insertTransfer(e.clipboardData);
+          }}
+          onDrop={(e) => {
+            e.preventDefault();
+            insertTransfer(e.dataTransfer);
+          }}
+        />
+      </div>
+    </div>
+  );
+}
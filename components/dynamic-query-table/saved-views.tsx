@@ -0,0 +1,261 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { Bookmark, Check, Link, Pencil, Star, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { cn } from "@/lib/utils/cn";
+import { SavedView, ViewStorage } from "@/lib/types/view.types";
+import { toast } from "@/lib/hooks/use-toast";
+
+/** Query and column state captured from the table when saving a view */
+type ViewSnapshot = Omit<SavedView, "id" | "name" | "isDefault">;
+
+interface SavedViewsMenuProps {
+  tableId: string;
+  storage: ViewStorage;
+  captureView: () => ViewSnapshot;
+  onApplyView: (view: SavedView) => void;
+  /** Apply the default view once views are loaded */
+  applyDefault?: boolean;
+}
+
+const createViewId = () =>
+  `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Toolbar popover for saving, applying, renaming, sharing and deleting
+ * named views (criteria + sort + columns)
+ */
+export function SavedViewsMenu({
+  tableId,
+  storage,
+  captureView,
+  onApplyView,
+  applyDefault = false,
+}: SavedViewsMenuProps) {
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const [newName, setNewName] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // A new callback on every render must not reload the views
+  const onApplyViewRef = useRef(onApplyView);
+  onApplyViewRef.current = onApplyView;
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.resolve(storage.load(tableId))
+      .then((loaded) => {
+        if (cancelled) return;
+        setViews(loaded);
+        const defaultView = loaded.find((v) => v.isDefault);
+        if (applyDefault && defaultView) {
+          setActiveViewId(defaultView.id);
+          onApplyViewRef.current(defaultView);
+        }
+      })
+      .catch((err) =>
+        toast({
+          variant: "error",
+          title: "Could not load saved views",
+          description: err instanceof Error ? err.message : String(err),
+        })
+      );
+    return () => {
+      cancelled = true;
+    };
+  }, [tableId, storage, applyDefault]);
+
+  const persist = async (next: SavedView[]) => {
+    const previous = views;
+    setViews(next);
+    setError(null);
+    try {
+      await storage.save(tableId, next);
+    } catch (err) {
+      setViews(previous);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleSave = () => {
+    const name = newName.trim();
+    if (!name) return;
+    // Saving under an existing name updates that view
+    const existing = views.find((v) => v.name === name);
+    const view: SavedView = {
+      ...existing,
+      id: existing?.id || createViewId(),
+      name,
+      ...captureView(),
+    };
+    persist(existing ? views.map((v) => (v.id === view.id ? view : v)) : [...views, view]);
+    setActiveViewId(view.id);
+    setNewName("");
+  };
+
+  const handleApply = (view: SavedView) => {
+    setActiveViewId(view.id);
+    onApplyView(view);
+  };
+
+  const handleRename = (id: string) => {
+    const name = editingName.trim();
+    if (name) {
+      persist(views.map((v) => (v.id === id ? { ...v, name } : v)));
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (id: string) => {
+    persist(views.filter((v) => v.id !== id));
+    if (activeViewId === id) setActiveViewId(null);
+  };
+
+  const handleToggleDefault = (id: string) => {
+    persist(
+      views.map((v) => ({ ...v, isDefault: v.id === id ? !v.isDefault : false }))
+    );
+  };
+
+  const handleShare = async (view: SavedView) => {
+    const url = `${window.location.origin}${window.location.pathname}?${view.query}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopiedId(view.id);
+      setTimeout(() => setCopiedId((current) => (current === view.id ? null : current)), 2000);
+    } catch {
+      setError(`Could not copy the link: ${url}`);
+    }
+  };
+
+  const activeView = views.find((v) => v.id === activeViewId);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline">
+          <Bookmark className="h-4 w-4 mr-2" />
+          {activeView ? activeView.name : "Views"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80" align="end">
+        <div className="space-y-3">
+          <div className="font-medium text-sm">Saved Views</div>
+
+          {views.length === 0 && (
+            <div className="text-sm text-muted-foreground">
+              No saved views. Save the current filters, sort and columns below.
+            </div>
+          )}
+
+          <div className="space-y-1">
+            {views.map((view) =>
+              editingId === view.id ? (
+                <div key={view.id} className="flex items-center gap-1">
+                  <Input
+                    className="h-7 text-sm"
+                    value={editingName}
+                    autoFocus
+                    onChange={(e) => setEditingName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") handleRename(view.id);
+                      if (e.key === "Escape") setEditingId(null);
+                    }}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => handleRename(view.id)}
+                  >
+                    <Check className="h-4 w-4" />
+                  </Button>
+                </div>
+              ) : (
+                <div key={view.id} className="flex items-center gap-1">
+                  <button
+                    type="button"
+                    className={cn(
+                      "flex-1 truncate rounded px-2 py-1 text-left text-sm hover:bg-muted",
+                      view.id === activeViewId && "font-medium"
+                    )}
+                    onClick={() => handleApply(view)}
+                  >
+                    {view.name}
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    title={view.isDefault ? "Default view" : "Set as default"}
+                    onClick={() => handleToggleDefault(view.id)}
+                  >
+                    <Star className={cn("h-4 w-4", view.isDefault && "fill-current")} />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    title="Copy link"
+                    onClick={() => handleShare(view)}
+                  >
+                    {copiedId === view.id ? (
+                      <Check className="h-4 w-4" />
+                    ) : (
+                      <Link className="h-4 w-4" />
+                    )}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    title="Rename"
+                    onClick={() => {
+                      setEditingId(view.id);
+                      setEditingName(view.name);
+                    }}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    title="Delete"
+                    onClick={() => handleDelete(view.id)}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              )
+            )}
+          </div>
+
+          <div className="flex items-center gap-2 border-t pt-3">
+            <Input
+              className="h-8 text-sm"
+              placeholder="View name"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleSave()}
+            />
+            <Button size="sm" onClick={handleSave} disabled={!newName.trim()}>
+              {views.some((v) => v.name === newName.trim()) ? "Update" : "Save"}
+            </Button>
+          </div>
+
+          {error && (
+            <div className="rounded-md border border-destructive/50 bg-destructive/10 p-2 text-xs text-destructive break-all">
+              {error}
+            </div>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,159 @@
+"use client";
+
+import React from "react";
+import { ArrowDown, ArrowUp, ArrowUpDown, ChevronDown, ChevronUp, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Field } from "@/lib/types/field.types";
+import { QueryBuilder } from "@/lib/utils/query-builder";
+
+interface SortManagerProps {
+  fields: Field[];
+  queryBuilder: QueryBuilder;
+  onSortChange: () => void;
+}
+
+/**
+ * Popover listing the active sorts in priority order,
+ * with controls to add, reorder, flip and remove them
+ */
+export function SortManager({ fields, queryBuilder, onSortChange }: SortManagerProps) {
+  const sorts = queryBuilder.getSorts();
+  const sortableFields = fields.filter((f) => f.sortable !== false);
+
+  const getTitle = (sortField: string) =>
+    fields.find((f) => (f.accessor || f.name) === sortField)?.title || sortField;
+
+  const availableFields = sortableFields.filter(
+    (f) => queryBuilder.getSortIndex(f.accessor || f.name) === -1
+  );
+
+  const apply = (change: () => void) => {
+    change();
+    onSortChange();
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline">
+          <ArrowUpDown className="h-4 w-4 mr-2" />
+          Sort
+          {sorts.length > 0 && (
+            <Badge variant="secondary" className="ml-2">
+              {sorts.length}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80" align="end">
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="font-medium text-sm">Sort Order</div>
+            {sorts.length > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => apply(() => queryBuilder.clearSort())}
+              >
+                Clear
+              </Button>
+            )}
+          </div>
+
+          {sorts.length === 0 && (
+            <div className="text-sm text-muted-foreground">
+              Not sorted. Shift-click column headers to sort by several columns.
+            </div>
+          )}
+
+          <div className="space-y-1">
+            {sorts.map((sort, idx) => (
+              <div key={sort.field} className="flex items-center gap-1">
+                <Badge variant="outline" className="w-6 justify-center px-0">
+                  {idx + 1}
+                </Badge>
+                <span className="flex-1 truncate text-sm">{getTitle(sort.field)}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  title={sort.direction === "asc" ? "Ascending" : "Descending"}
+                  onClick={() =>
+                    apply(() =>
+                      queryBuilder.addSort(
+                        sort.field,
+                        sort.direction === "asc" ? "desc" : "asc"
+                      )
+                    )
+                  }
+                >
+                  {sort.direction === "asc" ? (
+                    <ArrowUp className="h-4 w-4" />
+                  ) : (
+                    <ArrowDown className="h-4 w-4" />
+                  )}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  disabled={idx === 0}
+                  onClick={() => apply(() => queryBuilder.moveSort(idx, idx - 1))}
+                >
+                  <ChevronUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  disabled={idx === sorts.length - 1}
+                  onClick={() => apply(() => queryBuilder.moveSort(idx, idx + 1))}
+                >
+                  <ChevronDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => apply(() => queryBuilder.removeSort(sort.field))}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          {availableFields.length > 0 && (
+            <Select
+              value=""
+              onValueChange={(value) =>
+                apply(() => queryBuilder.addSort(value, "asc"))
+              }
+            >
+              <SelectTrigger className="h-8 text-sm">
+                <SelectValue placeholder="Add sort..." />
+              </SelectTrigger>
+              <SelectContent>
+                {availableFields.map((f) => (
+                  <SelectItem key={f.name} value={f.accessor || f.name}>
+                    {f.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,8 +1,22 @@
 "use client";
 
-import React, { useEffect, useState, useCallback } from "react";
-import { useRouter, useSearchParams } from "next/navigation";
-import { ArrowUpDown, Eye, RefreshCw, Settings2 } from "lucide-react";
+import React, { useEffect, useState, useCallback, useId, useMemo, useRef } from "react";
+import { useSearchParams } from "next/navigation";
+import {
+  AlertCircle,
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+  Check,
+  ChevronDown,
+  ChevronUp,
+  Eye,
+  RefreshCw,
+  RotateCcw,
+  Settings2,
+  Trash2,
+  X,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import {
@@ -15,18 +29,60 @@ import {
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { Field, SpringPage, CriteriaOperation } from "@/lib/types/field.types";
+import {
+  Field,
+  RelationField,
+  SpringPageOrSlice,
+  CriteriaOperation,
+  PaginationMode,
+} from "@/lib/types/field.types";
+import { DataSource, EntityId } from "@/lib/types/data-source.types";
+import { LayoutStorage, TableLayout } from "@/lib/types/layout.types";
+import { SavedView, ViewStorage } from "@/lib/types/view.types";
+import { BulkAction } from "@/lib/types/bulk-action.types";
+import { RowSelection } from "@/lib/types/selection.types";
+import { UploadHandlers } from "@/lib/types/upload.types";
 import { QueryBuilder } from "@/lib/utils/query-builder";
+import { createLocalStorageLayoutStorage } from "@/lib/utils/layout-storage";
+import { createLocalStorageViewStorage } from "@/lib/utils/view-storage";
+import { getFieldValue, setFieldValue } from "@/lib/utils/format";
+import { validateField } from "@/lib/utils/validation";
+import { parseServerValidationErrors } from "@/lib/utils/server-errors";
+import { htmlToText, textExcerpt } from "@/lib/utils/sanitize";
+import { getRelationLabel, getRelationLabels, loadRelationLabels } from "@/lib/utils/relation";
+import { FetchAllPagesOptions } from "@/lib/utils/export";
+import { useDynamicQuery } from "@/lib/hooks/use-dynamic-query";
+import { useVirtualRows } from "@/lib/hooks/use-virtual-rows";
+import { clearQueryCache, getQueryKey } from "@/lib/utils/query-cache";
+import { isSpringPage } from "@/lib/utils/pagination";
+import { DataSourceError, getErrorTitle, toDataSourceError } from "@/lib/utils/data-source";
+import { toast } from "@/lib/hooks/use-toast";
+import {
+  emptySelection,
+  getSelectionCount,
+  isRowSelected,
+  resolveSelectedRows,
+} from "@/lib/utils/selection";
 import { FilterPanel } from "./filter";
 import { Pagination } from "./pagination";
 import { DetailView } from "./detail-view";
 import { Form } from "./form";
+import { ConfirmDialog } from "./confirm-dialog";
+import { SortManager } from "./sort-manager";
+import { SavedViewsMenu } from "./saved-views";
+import { ExportMenu } from "./export-menu";
+import { BulkActionBar } from "./bulk-action-bar";
+import { FieldInput } from "./field-input";
+import { EnumBadge } from "./enum-badge";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils/cn";
 
 interface DynamicQueryTableProps<T = any> {
   fields: Field[];
-  apiUrl: string;
+  /** REST endpoint URL, used to build the default data source when `dataSource` is not given */
+  apiUrl?: string;
+  /** Custom transport (auth headers, axios, BFF, GraphQL...). Takes precedence over `apiUrl` */
+  dataSource?: DataSource<T>;
   idField?: string;
   defaultSortField?: string;
   pageSize?: number;
@@ -34,13 +90,48 @@ interface DynamicQueryTableProps<T = any> {
   enableSelection?: boolean;
   enableCreate?: boolean;
   enableEdit?: boolean;
-  onRowSelect?: (rows: T[]) => void;
-  onDataChange?: (data: SpringPage<T>) => void;
+  enableDelete?: boolean;
+  /** Persist column visibility, order, widths, page size and filter pin state under this id */
+  tableId?: string;
+  /** Where layouts are persisted (default: localStorage) */
+  layoutStorage?: LayoutStorage;
+  /** Show the saved views menu (named criteria + sort + columns presets) */
+  enableSavedViews?: boolean;
+  /** Where saved views are persisted (default: localStorage, keyed by tableId or apiUrl) */
+  viewStorage?: ViewStorage;
+  /** Upload handlers for Image fields by uploadConfig ("default" as fallback) */
+  uploadHandlers?: UploadHandlers;
+  /** Double-click cells of editable fields to edit them in place (Enter saves, Esc cancels) */
+  inlineEdit?: boolean;
+  /** Custom actions for the bulk action bar shown while rows are selected */
+  bulkActions?: BulkAction<T>[];
+  /** Show the export menu (CSV, Excel, JSON) */
+  enableExport?: boolean;
+  /** Only fetch visible columns (select/selectAs); detail and edit load the full record on demand */
+  enableProjection?: boolean;
+  /** "keyset" pages by the last row's sort key values instead of page numbers (default: "offset") */
+  pagination?: PaginationMode;
+  /** Append the next page while scrolling instead of paging (rows are virtualized) */
+  infiniteScroll?: boolean;
+  /** Only render the rows in view; always on with infiniteScroll */
+  virtualize?: boolean;
+  /** Max height of the scrolling table when virtualized (default: 600px) */
+  height?: number | string;
+  /** Row height (px) assumed by virtualization until a row is measured */
+  estimateRowHeight?: number;
+  /** Called with explicit ids (kept across pages) or a query-based "all matching" selection */
+  onRowSelect?: (selection: RowSelection<T>) => void;
+  onDataChange?: (data: SpringPageOrSlice<T>) => void;
+  /** Content of the table body when the query has no results */
+  renderEmpty?: () => React.ReactNode;
+  /** Content of the table body when loading the page failed */
+  renderError?: (error: DataSourceError, retry: () => void) => React.ReactNode;
 }
 
 export function DynamicQueryTable<T = any>({
   fields,
   apiUrl,
+  dataSource,
   idField = "id",
   defaultSortField = "id",
   pageSize = 20,
@@ -48,177 +139,686 @@ export function DynamicQueryTable<T = any>({
   enableSelection = false,
   enableCreate = false,
   enableEdit = false,
+  enableDelete = false,
+  enableProjection = false,
+  pagination = "offset",
+  infiniteScroll = false,
+  virtualize = false,
+  height = 600,
+  estimateRowHeight,
+  tableId,
+  layoutStorage,
+  enableSavedViews = false,
+  viewStorage,
+  enableExport = false,
+  inlineEdit = false,
+  uploadHandlers,
+  bulkActions,
   onRowSelect,
   onDataChange,
+  renderEmpty,
+  renderError,
 }: DynamicQueryTableProps<T>) {
-  const router = useRouter();
   const searchParams = useSearchParams();
-  const [data, setData] = useState<SpringPage<T> | null>(null);
-  const [loading, setLoading] = useState(false);
-  const [selectedRows, setSelectedRows] = useState<Set<any>>(new Set());
-  const [queryBuilder, setQueryBuilder] = useState<QueryBuilder>(
-    new QueryBuilder()
-  );
+  const [selection, setSelection] = useState<RowSelection<T>>(emptySelection);
   const [detailData, setDetailData] = useState<T | null>(null);
+  const [detailLoading, setDetailLoading] = useState(false);
   const [formData, setFormData] = useState<T | null | undefined>(undefined);
+  const [deleteTarget, setDeleteTarget] = useState<T | null>(null);
   const [columnVisibility, setColumnVisibility] = useState<Record<string, boolean>>({});
+  const [columnOrder, setColumnOrder] = useState<string[]>([]);
+  const [columnWidths, setColumnWidths] = useState<Record<string, number>>({});
+  const [filterPinned, setFilterPinned] = useState(false);
+  const [layoutLoaded, setLayoutLoaded] = useState(false);
+  const [editingCell, setEditingCell] = useState<{ rowId: EntityId; fieldName: string } | null>(
+    null
+  );
+  const [cellDraft, setCellDraft] = useState<any>(undefined);
+  // An image upload in the cell editor is still running; its draft is not final yet
+  const [cellUploading, setCellUploading] = useState(false);
+  const [cellStatus, setCellStatus] = useState<
+    Record<string, { saving?: boolean; error?: string }>
+  >({});
+  // Loaded labels of the page's Relation values, by field name and id
+  const [relationLabels, setRelationLabels] = useState<Record<string, Record<string, string>>>(
+    {}
+  );
+  // The default saved view only applies when the page wasn't opened with a query (e.g. shared link)
+  const [openedWithoutQuery] = useState(() => searchParams.toString() === "");
+  // A page size in the opening URL (shared link) wins over the saved layout's
+  const [openedWithPageSize] = useState(() => searchParams.has("pageSize"));
+  // Row highlighted by keyboard navigation (virtualized mode)
+  const [activeRow, setActiveRow] = useState<number | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const headerRef = useRef<HTMLTableSectionElement>(null);
+  const rowIdPrefix = useId();
+  const virtualized = infiniteScroll || virtualize;
 
-  // Initialize column visibility
-  useEffect(() => {
-    const visibility = fields.reduce((acc, field) => {
-      acc[field.name] = field.visible !== false;
-      return acc;
-    }, {} as Record<string, boolean>);
-    setColumnVisibility(visibility);
-  }, [fields]);
-
-  // Initialize query builder from URL
+  // Projected paths: visible columns plus the id, so rows stay addressable
+  const projection = useMemo(() => {
+    if (!enableProjection) return [];
+    const paths = fields
+      .filter((f) => columnVisibility[f.name] ?? f.visible !== false)
+      .map((f) => f.accessor || f.name);
+    return Array.from(new Set([idField, ...paths]));
+  }, [enableProjection, fields, columnVisibility, idField]);
+
+  const query = useDynamicQuery<T>({
+    fields,
+    dataSource,
+    apiUrl,
+    defaultSortField,
+    pageSize,
+    select: projection,
+    infinite: infiniteScroll,
+    pagination,
+    idField,
+    onDataChange,
+  });
+  const {
+    queryBuilder,
+    listQuery,
+    data,
+    loading,
+    validating,
+    error,
+    setData,
+    setQuery,
+    refetch: fetchData,
+    hasNextPage,
+    fetchNextPage,
+    loadingMore,
+    loadMoreError,
+    dataSource: resolvedDataSource,
+  } = query;
+
+  const bodyRows = data?.content || [];
+  const virtual = useVirtualRows({
+    count: bodyRows.length,
+    scrollRef,
+    headerRef,
+    estimateRowHeight,
+    enabled: virtualized,
+  });
+
+  // Load the next page once the rendered rows (viewport plus overscan) reach the loaded end
   useEffect(() => {
-    const queryString = searchParams.toString();
-    if (queryString) {
-      const builder = new QueryBuilder();
-      builder.fromQueryString(queryString);
-      setQueryBuilder(builder);
-    } else {
-      // Set defaults
-      const builder = new QueryBuilder();
-      builder.setPage(0);
-      builder.setPageSize(pageSize);
-      builder.setSort(defaultSortField, "desc");
-      setQueryBuilder(builder);
+    if (!hasNextPage || loadingMore || loadMoreError) return;
+    if (virtual.end >= bodyRows.length) {
+      fetchNextPage();
     }
-  }, []);
+  }, [hasNextPage, loadingMore, loadMoreError, virtual.end, bodyRows.length, fetchNextPage]);
+
+  const listQueryKey = getQueryKey(listQuery);
 
-  // Fetch data when query changes
+  // Results of a new query start at the top
   useEffect(() => {
-    if (queryBuilder.query) {
-      fetchData();
+    setActiveRow(null);
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = 0;
     }
-  }, [queryBuilder]);
+  }, [listQueryKey]);
+
+  const resolvedLayoutStorage = useMemo<LayoutStorage>(
+    () => layoutStorage || createLocalStorageLayoutStorage(),
+    [layoutStorage]
+  );
+
+  const resolvedViewStorage = useMemo<ViewStorage>(
+    () => viewStorage || createLocalStorageViewStorage(),
+    [viewStorage]
+  );
+
+  const getDefaultVisibility = useCallback(
+    () =>
+      fields.reduce((acc, field) => {
+        acc[field.name] = field.visible !== false;
+        return acc;
+      }, {} as Record<string, boolean>),
+    [fields]
+  );
+
+  // Initialize column visibility
+  useEffect(() => {
+    setColumnVisibility(getDefaultVisibility());
+  }, [getDefaultVisibility]);
+
+  // Restore the persisted layout of this table
+  useEffect(() => {
+    if (!tableId) return;
+    let cancelled = false;
+    setLayoutLoaded(false);
+
+    Promise.resolve(resolvedLayoutStorage.load(tableId))
+      .then((layout) => {
+        if (cancelled || !layout) return;
+        if (layout.columnVisibility) {
+          setColumnVisibility((current) => ({ ...current, ...layout.columnVisibility }));
+        }
+        setColumnOrder(layout.columnOrder || []);
+        setColumnWidths(layout.columnWidths || {});
+        setFilterPinned(!!layout.filterPinned);
+        if (layout.pageSize && !openedWithPageSize) {
+          const savedPageSize = layout.pageSize;
+          setQuery((current) => ({ ...current, page: 0, pageSize: savedPageSize }));
+        }
+      })
+      .catch((error) =>
+        toast({
+          id: `table-layout-${tableId}`,
+          variant: "error",
+          title: "Could not load the saved layout",
+          description: `${toDataSourceError(error).message}. The default layout is shown.`,
+        })
+      )
+      .finally(() => {
+        if (!cancelled) setLayoutLoaded(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tableId, resolvedLayoutStorage, openedWithPageSize, setQuery]);
+
+  const currentPageSize = queryBuilder.query.pageSize;
 
-  // Update URL when query changes
-  const updateUrl = useCallback(() => {
-    const queryString = queryBuilder.toQueryString();
-    router.replace(`?${queryString}`, { scroll: false });
-  }, [queryBuilder, router]);
+  // Layout applied by "Reset layout" (serialized): storage was cleared for it, so it's only
+  // persisted again once the user changes something
+  const resetLayoutRef = useRef<string | null>(null);
+  const persistTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+
+  // Persist layout changes (debounced, column resizing fires on every mouse move)
+  useEffect(() => {
+    if (!tableId || !layoutLoaded) return;
+    const layout: TableLayout = {
+      columnVisibility,
+      columnOrder,
+      columnWidths,
+      pageSize: currentPageSize,
+      filterPinned,
+    };
+    const serialized = JSON.stringify(layout);
+    if (resetLayoutRef.current === serialized) return;
+    resetLayoutRef.current = null;
+    const timeout = setTimeout(() => {
+      Promise.resolve(resolvedLayoutStorage.save(tableId, layout)).catch((error) =>
+        toast({
+          id: `table-layout-${tableId}`,
+          variant: "error",
+          title: "Could not save the table layout",
+          description: toDataSourceError(error).message,
+        })
+      );
+    }, 300);
+    persistTimeoutRef.current = timeout;
+    return () => clearTimeout(timeout);
+  }, [
+    tableId,
+    layoutLoaded,
+    resolvedLayoutStorage,
+    columnVisibility,
+    columnOrder,
+    columnWidths,
+    currentPageSize,
+    filterPinned,
+  ]);
 
-  const fetchData = async () => {
-    setLoading(true);
+  // Look up the labels of the page's Relation values, one batched request per column
+  useEffect(() => {
+    const rows = data?.content;
+    if (!rows || rows.length === 0) return;
+    const relationFields = fields.filter(
+      (f): f is RelationField =>
+        f.type === "Relation" && !f.renderCell && (columnVisibility[f.name] ?? f.visible !== false)
+    );
+    if (relationFields.length === 0) return;
+
+    let cancelled = false;
+    const idsByField = relationFields.map((field) => rows.map((row) => getFieldValue(row, field)));
+    Promise.all(relationFields.map((field, idx) => loadRelationLabels(field, idsByField[idx])))
+      .catch((error) =>
+        toast({
+          id: "relation-labels",
+          variant: "error",
+          title: "Could not load related names",
+          description: `${toDataSourceError(error).message}. Ids are shown instead.`,
+        })
+      )
+      .finally(() => {
+        if (cancelled) return;
+        setRelationLabels(
+          Object.fromEntries(
+            relationFields.map((field, idx) => [
+              field.name,
+              getRelationLabels(field, idsByField[idx]),
+            ])
+          )
+        );
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [data, fields, columnVisibility]);
+
+  // Error last shown as a toast, so new rows (e.g. an appended page) don't repeat it
+  const reportedErrorRef = useRef<DataSourceError | null>(null);
+
+  // A failed background refresh keeps the previous rows: tell the user they may be outdated.
+  // Failures without rows are shown inside the table instead.
+  useEffect(() => {
+    if (!error || !data || reportedErrorRef.current === error) return;
+    reportedErrorRef.current = error;
+    toast({
+      id: `dynamic-query-error-${tableId || apiUrl || "table"}`,
+      variant: "error",
+      title: getErrorTitle(error),
+      description: `${error.message}. The rows shown may be outdated.`,
+      action: { label: "Retry", onClick: () => fetchData() },
+    });
+  }, [error, data, tableId, apiUrl, fetchData]);
+
+  /**
+   * With projection, rows only hold the visible columns:
+   * load the full record before showing details or editing.
+   * Null when it can't be loaded, `consequence` tells the user what happens then.
+   */
+  const loadFullRecord = async (row: any, consequence: string): Promise<T | null> => {
+    if (!enableProjection) return row;
     try {
-      const queryString = queryBuilder.toQueryString();
-      const response = await fetch(`${apiUrl}?${queryString}`);
-      if (!response.ok) {
-        throw new Error("Failed to fetch data");
-      }
-      const result: SpringPage<T> = await response.json();
-      setData(result);
-      setSelectedRows(new Set());
-      if (onDataChange) {
-        onDataChange(result);
-      }
+      return await resolvedDataSource.get(row[idField]);
     } catch (error) {
-      console.error("Error fetching data:", error);
-      // In a real app, you'd want to show an error toast/notification
-    } finally {
-      setLoading(false);
+      toast({
+        variant: "error",
+        title: "Could not load the full record",
+        description: `${toDataSourceError(error).message}. ${consequence}`,
+      });
+      return null;
     }
   };
 
-  const handleFilterChange = () => {
-    // Reset to first page when filters change
-    queryBuilder.setPage(0);
-    setQueryBuilder(new QueryBuilder(queryBuilder.query));
-    updateUrl();
+  const handleOpenDetail = async (row: any) => {
+    setDetailData(row);
+    if (!enableProjection) return;
+    setDetailLoading(true);
+    const fullRecord = (await loadFullRecord(row, "Only the listed columns are shown.")) ?? row;
+    // Ignore the response if the dialog was closed or switched meanwhile
+    setDetailData((current) =>
+      current && (current as any)[idField] === row[idField] ? fullRecord : current
+    );
+    setDetailLoading(false);
   };
 
-  const handlePageChange = (page: number) => {
-    queryBuilder.setPage(page);
-    setQueryBuilder(new QueryBuilder(queryBuilder.query));
-    updateUrl();
+  const handleOpenEdit = async (row: any) => {
+    // Edit needs every editable field, a partial row would wipe hidden columns on save
+    const fullRecord = await loadFullRecord(row, "The record can't be edited without it.");
+    if (fullRecord) {
+      setFormData(fullRecord);
+    }
   };
 
-  const handlePageSizeChange = (newPageSize: number) => {
-    queryBuilder.setPageSize(newPageSize);
-    queryBuilder.setPage(0); // Reset to first page
-    setQueryBuilder(new QueryBuilder(queryBuilder.query));
-    updateUrl();
+  const handleResetLayout = async () => {
+    // A change saved after the removal would bring the old layout back
+    clearTimeout(persistTimeoutRef.current);
+    const defaultLayout: TableLayout = {
+      columnVisibility: getDefaultVisibility(),
+      columnOrder: [],
+      columnWidths: {},
+      pageSize,
+      filterPinned: false,
+    };
+    resetLayoutRef.current = JSON.stringify(defaultLayout);
+    if (tableId) {
+      try {
+        await resolvedLayoutStorage.remove(tableId);
+      } catch (error) {
+        // Save the defaults over the old layout instead
+        resetLayoutRef.current = null;
+        toast({
+          id: `table-layout-${tableId}`,
+          variant: "error",
+          title: "Could not clear the saved layout",
+          description: toDataSourceError(error).message,
+        });
+      }
+    }
+    setColumnVisibility(getDefaultVisibility());
+    setColumnOrder([]);
+    setColumnWidths({});
+    setFilterPinned(false);
+    if (queryBuilder.query.pageSize !== pageSize) {
+      query.setPageSize(pageSize);
+    }
   };
 
-  const handleSort = (field: Field) => {
-    if (field.sortable === false) return;
-
-    const fieldName = field.accessor || field.name;
-    const currentSort = queryBuilder.query.orderBy?.[0];
-    const currentDirection = queryBuilder.query.orderByDirection?.[0];
+  const captureView = () => ({
+    // Paging is left out so a view always opens on the first page
+    query: new QueryBuilder({
+      ...queryBuilder.query,
+      page: undefined,
+      pageSize: undefined,
+    }).toQueryString(),
+    columnVisibility,
+    columnOrder,
+  });
 
-    let newDirection: "asc" | "desc" = "desc";
-    if (currentSort === fieldName && currentDirection === "desc") {
-      newDirection = "asc";
+  const handleApplyView = (view: SavedView) => {
+    clearSelection();
+    const parsed = new QueryBuilder().fromQueryString(view.query);
+    // Goes through the hook so the URL follows: a reload keeps the view
+    query.setQuery((current) => ({ ...parsed, page: 0, pageSize: current.pageSize }));
+    if (view.columnVisibility) {
+      setColumnVisibility({ ...getDefaultVisibility(), ...view.columnVisibility });
+    }
+    if (view.columnOrder) {
+      setColumnOrder(view.columnOrder);
     }
+  };
 
-    queryBuilder.setSort(fieldName, newDirection);
-    setQueryBuilder(new QueryBuilder(queryBuilder.query));
-    updateUrl();
+  const moveColumn = (fieldName: string, delta: number) => {
+    const names = orderedFields.map((f) => f.name);
+    const from = names.indexOf(fieldName);
+    const to = from + delta;
+    if (to < 0 || to >= names.length) return;
+    names.splice(from, 1);
+    names.splice(to, 0, fieldName);
+    setColumnOrder(names);
   };
 
-  const handleSelectAll = (checked: boolean) => {
-    if (checked && data) {
-      const allIds = data.content.map((row: any) => row[idField]);
-      setSelectedRows(new Set(allIds));
-      if (onRowSelect) {
-        onRowSelect(data.content);
+  const startColumnResize = (e: React.MouseEvent, fieldName: string) => {
+    // Don't let the drag start a sort on the header
+    e.preventDefault();
+    e.stopPropagation();
+    const header = (e.currentTarget as HTMLElement).parentElement!;
+    const startX = e.clientX;
+    const startWidth = header.offsetWidth;
+
+    const handleMouseMove = (event: MouseEvent) => {
+      setColumnWidths((current) => ({
+        ...current,
+        [fieldName]: Math.max(60, startWidth + event.clientX - startX),
+      }));
+    };
+    const handleMouseUp = () => {
+      document.removeEventListener("mousemove", handleMouseMove);
+      document.removeEventListener("mouseup", handleMouseUp);
+    };
+    document.addEventListener("mousemove", handleMouseMove);
+    document.addEventListener("mouseup", handleMouseUp);
+  };
+
+  const handleSort = (field: Field, event: React.MouseEvent) => {
+    if (field.sortable === false) return;
+
+    const fieldName = field.accessor || field.name;
+    const currentDirection = queryBuilder.getSortDirection(fieldName);
+
+    if (event.shiftKey) {
+      // Shift-click appends a secondary sort: desc -> asc -> removed
+      if (currentDirection === "asc") {
+        queryBuilder.removeSort(fieldName);
+      } else {
+        queryBuilder.addSort(fieldName, currentDirection === "desc" ? "asc" : "desc");
       }
     } else {
-      setSelectedRows(new Set());
-      if (onRowSelect) {
-        onRowSelect([]);
+      const isOnlySort =
+        queryBuilder.getSorts().length === 1 && currentDirection !== undefined;
+      let newDirection: "asc" | "desc" = "desc";
+      if (isOnlySort && currentDirection === "desc") {
+        newDirection = "asc";
       }
+      queryBuilder.setSort(fieldName, newDirection);
     }
+
+    query.commit();
   };
 
-  const handleRowSelect = (id: any, checked: boolean) => {
-    const newSelection = new Set(selectedRows);
-    if (checked) {
-      newSelection.add(id);
-    } else {
-      newSelection.delete(id);
+  const updateSelection = (newSelection: RowSelection<T>) => {
+    setSelection(newSelection);
+    if (onRowSelect) {
+      onRowSelect(newSelection);
     }
-    setSelectedRows(newSelection);
-    if (onRowSelect && data) {
-      const selected = data.content.filter((row: any) =>
-        newSelection.has(row[idField])
-      );
-      onRowSelect(selected);
+  };
+
+  const clearSelection = () => {
+    if (selection.mode === "query" || selection.ids.length > 0) {
+      updateSelection(emptySelection());
+    }
+  };
+
+  /**
+   * Select or deselect the given rows, keeping the selection of other pages.
+   * In query mode deselecting adds exclusions instead.
+   */
+  const setRowsSelected = (rows: T[], checked: boolean) => {
+    const ids = rows.map((row: any) => row[idField] as EntityId);
+    if (selection.mode === "query") {
+      const excluded = selection.excludedIds.filter((id) => !ids.includes(id));
+      updateSelection({
+        ...selection,
+        excludedIds: checked ? excluded : [...excluded, ...ids],
+      });
+      return;
+    }
+    const keptRows = selection.rows.filter((row: any) => !ids.includes(row[idField]));
+    const newRows = checked ? [...keptRows, ...rows] : keptRows;
+    updateSelection({
+      mode: "ids",
+      ids: newRows.map((row: any) => row[idField]),
+      rows: newRows,
+    });
+  };
+
+  const handleSelectAll = (checked: boolean) => {
+    if (data) {
+      setRowsSelected(data.content, checked);
     }
   };
 
+  const handleRowSelect = (row: T, checked: boolean) => {
+    setRowsSelected([row], checked);
+  };
+
+  // Selecting every matching row needs the count, which a Slice doesn't have
+  const totalElements = data && isSpringPage(data) ? data.totalElements : undefined;
+
+  const handleSelectAllMatching = () => {
+    if (totalElements === undefined) return;
+    updateSelection({
+      mode: "query",
+      query: { ...listQuery, page: undefined, pageSize: undefined },
+      totalElements,
+      excludedIds: [],
+    });
+  };
+
+  const selectionCount = getSelectionCount(selection);
+  const pageIds = (data?.content || []).map((row: any) => row[idField] as EntityId);
+  const isPageSelected =
+    pageIds.length > 0 && pageIds.every((id) => isRowSelected(selection, id));
+
+  const resolveSelection = (options?: FetchAllPagesOptions) =>
+    resolveSelectedRows(selection, resolvedDataSource, idField, {
+      pagination,
+      idField,
+      ...options,
+    });
+
   const handleClearFilters = () => {
-    queryBuilder.clearCriteria();
-    queryBuilder.setPage(0);
-    queryBuilder.setPageSize(pageSize);
-    queryBuilder.setSort(defaultSortField, "desc");
-    setQueryBuilder(new QueryBuilder(queryBuilder.query));
-    updateUrl();
+    clearSelection();
+    query.clearFilters();
+  };
+
+  const replaceRow = (id: any, row: T) => {
+    setData((current) =>
+      current
+        ? {
+            ...current,
+            content: current.content.map((r: any) =>
+              r[idField] === id ? row : r
+            ),
+          }
+        : current
+    );
   };
 
   const handleFormSubmit = async (formData: any) => {
-    // In a real implementation, you would POST/PUT to an API endpoint
-    console.log("Form submitted:", formData);
-    // Refresh data after submission
-    await fetchData();
+    const id = formData[idField];
+
+    if (id === undefined || id === null || id === "") {
+      await resolvedDataSource.create(formData);
+      // New records may land on any page depending on sort, so refetch
+      await fetchData();
+      return;
+    }
+
+    // Optimistically show the edited row, roll back if the server rejects it
+    const previousData = data;
+    replaceRow(id, formData);
+    try {
+      const saved = await resolvedDataSource.update(id, formData);
+      if (saved) {
+        replaceRow(id, saved);
+      }
+      // Cached pages may still hold the old record
+      clearQueryCache(resolvedDataSource);
+    } catch (error) {
+      setData(previousData);
+      throw error;
+    }
   };
 
-  const getFieldValue = (row: any, field: Field): any => {
-    const path = (field.accessor || field.name).split(".");
-    let value = row;
-    for (const key of path) {
-      if (value && typeof value === "object") {
-        value = value[key];
+  const getCellKey = (rowId: EntityId, field: Field) => `${rowId}:${field.name}`;
+
+  const setCellState = (key: string, state: { saving?: boolean; error?: string } | null) => {
+    setCellStatus((current) => {
+      const next = { ...current };
+      if (state) {
+        next[key] = state;
       } else {
-        return null;
+        delete next[key];
       }
+      return next;
+    });
+  };
+
+  const startCellEdit = (row: any, field: Field) => {
+    setEditingCell({ rowId: row[idField], fieldName: field.name });
+    setCellDraft(getFieldValue(row, field));
+  };
+
+  const saveCellEdit = async (row: any, field: Field) => {
+    const rowId = row[idField];
+    const key = getCellKey(rowId, field);
+    const value = cellDraft;
+    if (cellUploading) return;
+    if (value === getFieldValue(row, field)) {
+      setEditingCell(null);
+      return;
+    }
+    // Same rules as the form; keep the editor open on invalid input
+    const invalid = validateField(field, value, row);
+    if (invalid) {
+      setCellState(key, { error: invalid });
+      return;
+    }
+    setEditingCell(null);
+
+    setCellState(key, { saving: true });
+    try {
+      // Same path as the edit form; with projection the row only holds visible columns
+      const full = enableProjection ? await resolvedDataSource.get(rowId) : row;
+      await handleFormSubmit(setFieldValue(full, field, value));
+      setCellState(key, null);
+    } catch (error) {
+      const { fieldErrors, formErrors } = parseServerValidationErrors(error, [field]);
+      setCellState(key, { error: fieldErrors[field.name] || formErrors.join(", ") });
+      // Reopen the editor with the rejected value so it can be corrected
+      setEditingCell({ rowId, fieldName: field.name });
+      setCellDraft(value);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    const id = (deleteTarget as any)[idField];
+
+    // Optimistically remove the row, restore it if the delete fails
+    const previousData = data;
+    setData((current) =>
+      current
+        ? {
+            ...current,
+            content: current.content.filter((r: any) => r[idField] !== id),
+            ...(isSpringPage(current) && { totalElements: current.totalElements - 1 }),
+          }
+        : current
+    );
+    try {
+      await resolvedDataSource.delete(id);
+    } catch (error) {
+      setData(previousData);
+      throw error;
+    }
+    if (infiniteScroll) {
+      // Refetching would drop the appended pages and the scroll position
+      clearQueryCache(resolvedDataSource);
+      return;
+    }
+    // Refill the page and totals from the server
+    await fetchData();
+  };
+
+  const moveActiveRow = (index: number) => {
+    if (bodyRows.length === 0) return;
+    const next = Math.max(0, Math.min(bodyRows.length - 1, index));
+    setActiveRow(next);
+    virtual.scrollToIndex(next);
+  };
+
+  /**
+   * Arrow keys, Page Up/Down and Home/End move the active row, Enter opens it and
+   * Space toggles its selection. Only handled while the table itself has focus.
+   */
+  const handleTableKeyDown = (e: React.KeyboardEvent) => {
+    if (e.target !== e.currentTarget) return;
+    const current = activeRow ?? -1;
+    const rowsPerPage = Math.max(
+      1,
+      Math.floor((scrollRef.current?.clientHeight ?? 0) / virtual.rowHeight) - 1
+    );
+    const row: any = activeRow !== null ? bodyRows[activeRow] : undefined;
+
+    switch (e.key) {
+      case "ArrowDown":
+        moveActiveRow(current + 1);
+        break;
+      case "ArrowUp":
+        moveActiveRow(current - 1);
+        break;
+      case "PageDown":
+        moveActiveRow(current + rowsPerPage);
+        break;
+      case "PageUp":
+        moveActiveRow(current - rowsPerPage);
+        break;
+      case "Home":
+        moveActiveRow(0);
+        break;
+      case "End":
+        moveActiveRow(bodyRows.length - 1);
+        break;
+      case "Enter":
+        if (!row) return;
+        handleOpenDetail(row);
+        break;
+      case " ":
+        if (!row || !enableSelection) return;
+        handleRowSelect(row, !isRowSelected(selection, row[idField]));
+        break;
+      default:
+        return;
     }
-    return value;
+    e.preventDefault();
   };
 
   const renderCellValue = (field: Field, value: any, row: any) => {
@@ -237,7 +837,18 @@ export function DynamicQueryTable<T = any>({
         return <Badge variant={value ? "default" : "secondary"}>{value ? "Yes" : "No"}</Badge>;
 
       case "Enum":
-        return <span>{field.enumValues[value] || value}</span>;
+        return <EnumBadge field={field} value={value} />;
+
+      case "Relation": {
+        // The id stands in until the label is loaded (or when it can't be found)
+        const label =
+          relationLabels[field.name]?.[String(value)] ?? getRelationLabel(field, value);
+        return label !== undefined ? (
+          <span>{label}</span>
+        ) : (
+          <span className="text-muted-foreground">{String(value)}</span>
+        );
+      }
 
       case "DateSec":
       case "DateTimeSec":
@@ -266,8 +877,7 @@ export function DynamicQueryTable<T = any>({
         );
 
       case "RichText":
-        const stripped = value.replace(/<[^>]*>/g, "").substring(0, 50);
-        return <span>{stripped}...</span>;
+        return <span title={htmlToText(value)}>{textExcerpt(value)}</span>;
 
       default:
         const text = value.toString();
@@ -282,17 +892,132 @@ export function DynamicQueryTable<T = any>({
     }
   };
 
-  const visibleFields = fields.filter((f) => columnVisibility[f.name]);
-  const currentSort = queryBuilder.query.orderBy?.[0];
-  const currentDirection = queryBuilder.query.orderByDirection?.[0];
+  const renderBodyCell = (row: any, field: Field) => {
+    const rowId = row[idField];
+    const value = getFieldValue(row, field);
+    const status = cellStatus[getCellKey(rowId, field)];
+    const isEditable = inlineEdit && field.editable;
+    const isEditing =
+      editingCell?.rowId === rowId && editingCell?.fieldName === field.name;
+
+    if (!isEditing) {
+      return (
+        <TableCell
+          key={field.name}
+          className={cn(
+            isEditable && "cursor-text",
+            status?.saving && "opacity-50",
+            status?.error && "ring-1 ring-inset ring-destructive"
+          )}
+          title={status?.error || (isEditable ? "Double-click to edit" : undefined)}
+          onDoubleClick={isEditable ? () => startCellEdit(row, field) : undefined}
+        >
+          {renderCellValue(field, value, row)}
+        </TableCell>
+      );
+    }
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+      // Ignore keys from portalled pickers (select list, calendar), they handle their own
+      if (!e.currentTarget.contains(e.target as Node)) return;
+      if (e.key === "Enter" && !(field.type === "RichText" && e.shiftKey)) {
+        e.preventDefault();
+        saveCellEdit(row, field);
+      } else if (e.key === "Escape") {
+        e.preventDefault();
+        setEditingCell(null);
+        setCellState(getCellKey(rowId, field), null);
+      }
+    };
+
+    return (
+      <TableCell
+        key={field.name}
+        className={cn(cellDraft !== value && "bg-orange-50 dark:bg-orange-950/30")}
+      >
+        <div className="flex items-center gap-1" onKeyDown={handleKeyDown}>
+          <div className="min-w-[120px] flex-1">
+            <FieldInput
+              field={field}
+              id={`cell-${rowId}-${field.name}`}
+              value={cellDraft}
+              onChange={setCellDraft}
+              autoFocus
+              hideLabel
+              uploadHandlers={uploadHandlers}
+              onUploadingChange={setCellUploading}
+            />
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 shrink-0"
+            disabled={cellUploading}
+            onClick={() => saveCellEdit(row, field)}
+          >
+            <Check className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 shrink-0"
+            onClick={() => {
+              setEditingCell(null);
+              setCellState(getCellKey(rowId, field), null);
+            }}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+        {status?.error && (
+          <div className="mt-1 text-xs text-destructive">{status.error}</div>
+        )}
+      </TableCell>
+    );
+  };
+
+  const renderSortIndicator = (field: Field) => {
+    const fieldName = field.accessor || field.name;
+    const direction = queryBuilder.getSortDirection(fieldName);
+
+    if (!direction) {
+      return <ArrowUpDown className="h-4 w-4 text-muted-foreground/50" />;
+    }
+
+    const Arrow = direction === "asc" ? ArrowUp : ArrowDown;
+    return (
+      <span className="flex items-center gap-0.5 text-primary">
+        <Arrow className="h-4 w-4" />
+        {sortCount > 1 && (
+          <Badge variant="secondary" className="h-4 min-w-4 justify-center px-1 text-[10px]">
+            {queryBuilder.getSortIndex(fieldName) + 1}
+          </Badge>
+        )}
+      </span>
+    );
+  };
+
+  // Saved order first, fields missing from it (e.g. added later) keep their definition order
+  const orderedFields =
+    columnOrder.length > 0
+      ? [...fields].sort((a, b) => {
+          const aIdx = columnOrder.indexOf(a.name);
+          const bIdx = columnOrder.indexOf(b.name);
+          return (aIdx === -1 ? Infinity : aIdx) - (bIdx === -1 ? Infinity : bIdx);
+        })
+      : fields;
+  const visibleFields = orderedFields.filter((f) => columnVisibility[f.name]);
+  const sortCount = queryBuilder.getSorts().length;
 
   return (
     <div className="space-y-4">
       {enableFilter && (
         <FilterPanel
-          fields={fields}
-          queryBuilder={queryBuilder}
-          onFilterChange={handleFilterChange}
+          query={query}
+          // A selection belongs to the criteria it was made with
+          onFilterChange={clearSelection}
+          pinned={tableId ? filterPinned : undefined}
+          onPinnedChange={setFilterPinned}
         />
       )}
 
@@ -307,9 +1032,9 @@ export function DynamicQueryTable<T = any>({
             variant="outline"
             size="icon"
             onClick={() => fetchData()}
-            disabled={loading}
+            disabled={validating}
           >
-            <RefreshCw className={cn("h-4 w-4", loading && "animate-spin")} />
+            <RefreshCw className={cn("h-4 w-4", validating && "animate-spin")} />
           </Button>
           {enableFilter && (
             <Button variant="outline" onClick={handleClearFilters}>
@@ -318,86 +1043,213 @@ export function DynamicQueryTable<T = any>({
           )}
         </div>
 
-        <Popover>
-          <PopoverTrigger asChild>
-            <Button variant="outline" size="icon">
-              <Settings2 className="h-4 w-4" />
-            </Button>
-          </PopoverTrigger>
-          <PopoverContent className="w-56">
-            <div className="space-y-3">
-              <div className="flex items-center justify-between">
-                <div className="font-medium text-sm">Column Visibility</div>
-                <div className="flex gap-1">
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    className="h-7 text-xs"
-                    onClick={() => {
-                      const allVisible = fields.reduce((acc, field) => {
-                        acc[field.name] = true;
-                        return acc;
-                      }, {} as Record<string, boolean>);
-                      setColumnVisibility(allVisible);
-                    }}
-                  >
-                    All
-                  </Button>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    className="h-7 text-xs"
-                    onClick={() => {
-                      const allHidden = fields.reduce((acc, field) => {
-                        acc[field.name] = false;
-                        return acc;
-                      }, {} as Record<string, boolean>);
-                      setColumnVisibility(allHidden);
-                    }}
-                  >
-                    None
-                  </Button>
-                </div>
-              </div>
-              <div className="space-y-2">
-                {fields.map((field) => (
-                  <div key={field.name} className="flex items-center space-x-2">
-                    <Checkbox
-                      id={`col-${field.name}`}
-                      checked={columnVisibility[field.name]}
-                      onCheckedChange={(checked) =>
-                        setColumnVisibility({
-                          ...columnVisibility,
-                          [field.name]: checked as boolean,
-                        })
-                      }
-                    />
-                    <label
-                      htmlFor={`col-${field.name}`}
-                      className="text-sm cursor-pointer"
+        <div className="flex items-center gap-2">
+          {enableSavedViews && (
+            <SavedViewsMenu
+              tableId={tableId || apiUrl || "default"}
+              storage={resolvedViewStorage}
+              captureView={captureView}
+              onApplyView={handleApplyView}
+              applyDefault={openedWithoutQuery}
+            />
+          )}
+          {enableExport && (
+            <ExportMenu
+              fields={visibleFields}
+              dataSource={resolvedDataSource}
+              query={listQuery}
+              pageRows={data?.content || []}
+              selectedCount={selectionCount}
+              resolveSelectedRows={resolveSelection}
+              totalElements={totalElements}
+              pagination={pagination}
+              idField={idField}
+              fileName={tableId || "export"}
+            />
+          )}
+          <SortManager
+            fields={fields}
+            queryBuilder={queryBuilder}
+            onSortChange={() => query.commit()}
+          />
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="icon">
+                <Settings2 className="h-4 w-4" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-64">
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="font-medium text-sm">Column Visibility</div>
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 text-xs"
+                      onClick={() => {
+                        const allVisible = fields.reduce((acc, field) => {
+                          acc[field.name] = true;
+                          return acc;
+                        }, {} as Record<string, boolean>);
+                        setColumnVisibility(allVisible);
+                      }}
+                    >
+                      All
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 text-xs"
+                      onClick={() => {
+                        const allHidden = fields.reduce((acc, field) => {
+                          acc[field.name] = false;
+                          return acc;
+                        }, {} as Record<string, boolean>);
+                        setColumnVisibility(allHidden);
+                      }}
                     >
-                      {field.title}
-                    </label>
+                      None
+                    </Button>
                   </div>
-                ))}
+                </div>
+                <div className="space-y-2">
+                  {orderedFields.map((field, idx) => (
+                    <div key={field.name} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`col-${field.name}`}
+                        checked={columnVisibility[field.name]}
+                        onCheckedChange={(checked) =>
+                          setColumnVisibility({
+                            ...columnVisibility,
+                            [field.name]: checked as boolean,
+                          })
+                        }
+                      />
+                      <label
+                        htmlFor={`col-${field.name}`}
+                        className="text-sm cursor-pointer"
+                      >
+                        {field.title}
+                      </label>
+                      <div className="ml-auto flex">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          disabled={idx === 0}
+                          onClick={() => moveColumn(field.name, -1)}
+                        >
+                          <ChevronUp className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          disabled={idx === orderedFields.length - 1}
+                          onClick={() => moveColumn(field.name, 1)}
+                        >
+                          <ChevronDown className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full"
+                  onClick={handleResetLayout}
+                >
+                  <RotateCcw className="h-3 w-3 mr-2" />
+                  Reset layout
+                </Button>
               </div>
-            </div>
-          </PopoverContent>
-        </Popover>
+            </PopoverContent>
+          </Popover>
+        </div>
       </div>
 
-      <div className="border rounded-lg">
-        <Table>
-          <TableHeader>
+      {enableSelection && (
+        <BulkActionBar
+          fields={fields}
+          count={selectionCount}
+          resolveRows={() => resolveSelection()}
+          idField={idField}
+          dataSource={resolvedDataSource}
+          enableDelete={enableDelete}
+          enableUpdate={enableEdit}
+          loadFullRecord={
+            enableProjection ? (row: any) => resolvedDataSource.get(row[idField]) : undefined
+          }
+          actions={bulkActions}
+          onClearSelection={clearSelection}
+          onComplete={async () => {
+            // Selected rows may be gone or no longer match
+            clearSelection();
+            await fetchData();
+          }}
+        />
+      )}
+
+      {enableSelection && data && (selection.mode === "query" || isPageSelected) && (
+        <div className="flex items-center justify-center gap-2 rounded-md bg-muted/50 px-3 py-2 text-sm">
+          {selection.mode === "query" ? (
+            <>
+              All {selectionCount.toLocaleString()} matching results are selected.
+              <Button variant="link" size="sm" className="h-auto p-0" onClick={clearSelection}>
+                Clear selection
+              </Button>
+            </>
+          ) : (
+            <>
+              {selection.ids.length > pageIds.length
+                ? `${selection.ids.length.toLocaleString()} rows are selected.`
+                : infiniteScroll
+                  ? `All ${pageIds.length} loaded rows are selected.`
+                  : `All ${pageIds.length} rows on this page are selected.`}
+              {totalElements !== undefined && totalElements > selection.ids.length && (
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0"
+                  onClick={handleSelectAllMatching}
+                >
+                  Select all {totalElements.toLocaleString()} matching results
+                </Button>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
+      <div
+        ref={scrollRef}
+        className={cn(
+          "border rounded-lg",
+          virtualized &&
+            "overflow-auto focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+        )}
+        style={virtualized ? { maxHeight: height } : undefined}
+        tabIndex={virtualized ? 0 : undefined}
+        aria-activedescendant={
+          virtualized && activeRow !== null ? `${rowIdPrefix}-row-${activeRow}` : undefined
+        }
+        onKeyDown={virtualized ? handleTableKeyDown : undefined}
+      >
+        {/* The outer div scrolls when virtualized, so the header can stick to it */}
+        <Table containerClassName={virtualized ? "overflow-visible" : undefined}>
+          <TableHeader
+            ref={headerRef}
+            className={cn(
+              virtualized && "sticky top-0 z-10 bg-background shadow-[0_1px_0_hsl(var(--border))]"
+            )}
+          >
             <TableRow>
               {enableSelection && (
                 <TableHead className="w-12">
                   <Checkbox
-                    checked={
-                      data &&
-                      data.content.length > 0 &&
-                      selectedRows.size === data.content.length
-                    }
+                    checked={isPageSelected}
                     onCheckedChange={handleSelectAll}
                   />
                 </TableHead>
@@ -405,28 +1257,47 @@ export function DynamicQueryTable<T = any>({
               {visibleFields.map((field) => (
                 <TableHead
                   key={field.name}
-                  className={cn(field.sortable !== false && "cursor-pointer")}
-                  onClick={() => handleSort(field)}
+                  className={cn("relative", field.sortable !== false && "cursor-pointer")}
+                  style={columnWidths[field.name] ? { width: columnWidths[field.name] } : undefined}
+                  onClick={(e) => handleSort(field, e)}
+                  title={field.sortable !== false ? "Click to sort, Shift+click to add a secondary sort" : undefined}
                 >
-                  <div className="flex items-center gap-2">
+                  <div className="flex items-center gap-2 select-none">
                     {field.title}
-                    {field.sortable !== false && (
-                      <ArrowUpDown
-                        className={cn(
-                          "h-4 w-4",
-                          currentSort === (field.accessor || field.name) &&
-                            "text-primary"
-                        )}
-                      />
-                    )}
+                    {field.sortable !== false && renderSortIndicator(field)}
                   </div>
+                  <div
+                    className="absolute right-0 top-0 h-full w-1 cursor-col-resize hover:bg-primary/40"
+                    onMouseDown={(e) => startColumnResize(e, field.name)}
+                    onClick={(e) => e.stopPropagation()}
+                  />
                 </TableHead>
               ))}
               <TableHead className="w-24">Actions</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
-            {loading ? (
+            {error && !data && !loading ? (
+              <TableRow>
+                <TableCell colSpan={visibleFields.length + (enableSelection ? 2 : 1)}>
+                  {renderError ? (
+                    renderError(error, () => fetchData())
+                  ) : (
+                    <div className="flex flex-col items-center gap-3 py-8 text-center">
+                      <AlertCircle className="h-6 w-6 text-destructive" />
+                      <div className="space-y-1">
+                        <div className="font-medium">{getErrorTitle(error)}</div>
+                        <div className="text-sm text-muted-foreground">{error.message}</div>
+                      </div>
+                      <Button variant="outline" size="sm" onClick={() => fetchData()}>
+                        <RefreshCw className="h-4 w-4 mr-2" />
+                        Retry
+                      </Button>
+                    </div>
+                  )}
+                </TableCell>
+              </TableRow>
+            ) : loading ? (
               <TableRow>
                 <TableCell
                   colSpan={
@@ -437,53 +1308,98 @@ export function DynamicQueryTable<T = any>({
                   Loading...
                 </TableCell>
               </TableRow>
-            ) : data && data.content.length > 0 ? (
-              data.content.map((row: any) => {
-                const rowId = row[idField];
-                const isSelected = selectedRows.has(rowId);
-                return (
-                  <TableRow
-                    key={rowId}
-                    data-state={isSelected && "selected"}
-                  >
-                    {enableSelection && (
+            ) : bodyRows.length > 0 ? (
+              <>
+                {virtual.paddingTop > 0 && (
+                  <tr aria-hidden style={{ height: virtual.paddingTop }} />
+                )}
+                {bodyRows.slice(virtual.start, virtual.end).map((row: any, offset) => {
+                  const index = virtual.start + offset;
+                  const rowId = row[idField];
+                  const isSelected = isRowSelected(selection, rowId);
+                  return (
+                    <TableRow
+                      key={rowId}
+                      ref={virtualized && index === virtual.start ? virtual.measureRow : undefined}
+                      id={virtualized ? `${rowIdPrefix}-row-${index}` : undefined}
+                      data-state={isSelected && "selected"}
+                      className={cn(
+                        virtualized &&
+                          activeRow === index &&
+                          "bg-muted/50 shadow-[inset_3px_0_0_hsl(var(--primary))]"
+                      )}
+                      onClick={virtualized ? () => setActiveRow(index) : undefined}
+                    >
+                      {enableSelection && (
+                        <TableCell>
+                          <Checkbox
+                            checked={isSelected}
+                            onCheckedChange={(checked) =>
+                              handleRowSelect(row, checked as boolean)
+                            }
+                          />
+                        </TableCell>
+                      )}
+                      {visibleFields.map((field) => renderBodyCell(row, field))}
                       <TableCell>
-                        <Checkbox
-                          checked={isSelected}
-                          onCheckedChange={(checked) =>
-                            handleRowSelect(rowId, checked as boolean)
-                          }
-                        />
-                      </TableCell>
-                    )}
-                    {visibleFields.map((field) => (
-                      <TableCell key={field.name}>
-                        {renderCellValue(field, getFieldValue(row, field), row)}
-                      </TableCell>
-                    ))}
-                    <TableCell>
-                      <div className="flex items-center gap-2">
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => setDetailData(row)}
-                        >
-                          <Eye className="h-4 w-4" />
-                        </Button>
-                        {enableEdit && (
+                        <div className="flex items-center gap-2">
                           <Button
                             variant="ghost"
                             size="icon"
-                            onClick={() => setFormData(row)}
+                            onClick={() => handleOpenDetail(row)}
                           >
-                            Edit
+                            <Eye className="h-4 w-4" />
                           </Button>
-                        )}
-                      </div>
+                          {enableEdit && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleOpenEdit(row)}
+                            >
+                              Edit
+                            </Button>
+                          )}
+                          {enableDelete && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => setDeleteTarget(row)}
+                            >
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                  })}
+                {virtual.paddingBottom > 0 && (
+                  <tr aria-hidden style={{ height: virtual.paddingBottom }} />
+                )}
+                {infiniteScroll && (
+                  <TableRow className="hover:bg-transparent">
+                    <TableCell
+                      colSpan={visibleFields.length + (enableSelection ? 2 : 1)}
+                      className="py-3 text-center text-sm text-muted-foreground"
+                    >
+                      {loadMoreError ? (
+                        <span className="inline-flex items-center gap-2 text-destructive">
+                          <AlertCircle className="h-4 w-4" />
+                          Couldn&apos;t load more rows: {loadMoreError.message}
+                          <Button variant="outline" size="sm" onClick={() => fetchNextPage()}>
+                            <RefreshCw className="h-4 w-4 mr-2" />
+                            Retry
+                          </Button>
+                        </span>
+                      ) : hasNextPage ? (
+                        "Loading more..."
+                      ) : (
+                        `All ${bodyRows.length.toLocaleString()} rows loaded`
+                      )}
                     </TableCell>
                   </TableRow>
-                );
-              })
+                )}
+              </>
             ) : (
               <TableRow>
                 <TableCell
@@ -492,7 +1408,7 @@ export function DynamicQueryTable<T = any>({
                   }
                   className="text-center h-24"
                 >
-                  No results found
+                  {renderEmpty ? renderEmpty() : "No results found"}
                 </TableCell>
               </TableRow>
             )}
@@ -500,19 +1416,14 @@ export function DynamicQueryTable<T = any>({
         </Table>
       </div>
 
-      {data && data.totalElements > 0 && (
-        <Pagination
-          page={data}
-          onPageChange={handlePageChange}
-          onPageSizeChange={handlePageSizeChange}
-        />
-      )}
+      {!infiniteScroll && <Pagination query={query} />}
 
       {detailData && (
         <DetailView
           data={detailData}
           fields={fields}
           open={!!detailData}
+          loading={detailLoading}
           onClose={() => setDetailData(null)}
         />
       )}
@@ -525,8 +1436,19 @@ export function DynamicQueryTable<T = any>({
           onClose={() => setFormData(undefined)}
           onSubmit={handleFormSubmit}
           idField={idField}
+          uploadHandlers={uploadHandlers}
         />
       )}
+
+      <ConfirmDialog
+        open={!!deleteTarget}
+        title="Delete Record"
+        description="This record will be permanently deleted. This action cannot be undone."
+        confirmLabel="Delete"
+        destructive
+        onConfirm={handleDelete}
+        onClose={() => setDeleteTarget(null)}
+      />
     </div>
   );
 }
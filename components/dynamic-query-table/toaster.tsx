@@ -0,0 +1,81 @@
+"use client";
+
+import React from "react";
+import { AlertCircle, CheckCircle2, Info, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils/cn";
+import { ToastVariant } from "@/lib/types/toast.types";
+import { dismissToast, useToasts } from "@/lib/hooks/use-toast";
+
+const VARIANT_CLASSES: Record<ToastVariant, string> = {
+  default: "border bg-background text-foreground",
+  success: "border-green-500/50 bg-background text-foreground",
+  error: "border-destructive/50 bg-destructive text-destructive-foreground",
+};
+
+const VARIANT_ICONS: Record<ToastVariant, React.ElementType> = {
+  default: Info,
+  success: CheckCircle2,
+  error: AlertCircle,
+};
+
+/**
+ * Renders the toasts raised with `toast()`. Mount it once, e.g. in the root layout.
+ */
+export function Toaster() {
+  const toasts = useToasts();
+
+  return (
+    <div
+      aria-live="polite"
+      className="pointer-events-none fixed bottom-0 right-0 z-[100] flex w-full max-w-sm flex-col gap-2 p-4"
+    >
+      {toasts.map((t) => {
+        const variant = t.variant || "default";
+        const Icon = VARIANT_ICONS[variant];
+        return (
+          <div
+            key={t.id}
+            role={variant === "error" ? "alert" : "status"}
+            className={cn(
+              "pointer-events-auto flex items-start gap-3 rounded-md border p-4 shadow-lg",
+              VARIANT_CLASSES[variant]
+            )}
+          >
+            <Icon
+              className={cn("mt-0.5 h-4 w-4 shrink-0", variant === "success" && "text-green-600")}
+            />
+            <div className="flex-1 space-y-1">
+              <div className="text-sm font-medium">{t.title}</div>
+              {t.description && <div className="text-sm opacity-90">{t.description}</div>}
+              {t.action && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className={cn(
+                    "mt-2 h-7",
+                    variant === "error" && "border-destructive-foreground/40 bg-transparent"
+                  )}
+                  onClick={() => {
+                    t.action!.onClick();
+                    dismissToast(t.id);
+                  }}
+                >
+                  {t.action.label}
+                </Button>
+              )}
+            </div>
+            <button
+              type="button"
+              aria-label="Close"
+              className="rounded-sm opacity-70 hover:opacity-100"
+              onClick={() => dismissToast(t.id)}
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,567 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { Dispatch, MutableRefObject, SetStateAction } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import {
+  CriteriaOperation,
+  DynamicQuery,
+  Field,
+  PaginationMode,
+  SpringPageOrSlice,
+} from "../types/field.types";
+import { DataSource } from "../types/data-source.types";
+import { QueryBuilder } from "../utils/query-builder";
+import {
+  DataSourceError,
+  createRestDataSource,
+  isAbortError,
+  toDataSourceError,
+} from "../utils/data-source";
+import { hasRequiredValues } from "../utils/operations";
+import {
+  clearQueryCache,
+  fetchPage,
+  getCachedPage,
+  getQueryKey,
+  prefetchPage,
+} from "../utils/query-cache";
+import {
+  KeysetCursor,
+  applyKeysetCursor,
+  createKeysetCursorError,
+  getKeysetCursor,
+  getKeysetSorts,
+  toKeysetPage,
+  withKeysetSort,
+} from "../utils/pagination";
+
+export interface UseDynamicQueryOptions<T = any> {
+  fields: Field[];
+  /** Custom transport (auth headers, axios, BFF, GraphQL...). Takes precedence over `apiUrl` */
+  dataSource?: DataSource<T>;
+  /** REST endpoint URL, used to build the default data source when `dataSource` is not given */
+  apiUrl?: string;
+  defaultSortField?: string;
+  pageSize?: number;
+  /** Read the initial query from the URL and mirror every change into it (default: true) */
+  syncUrl?: boolean;
+  /** Paths to fetch (select/selectAs); applied per request and kept out of the URL */
+  select?: string[];
+  /** Cached pages younger than this (ms) are shown without revalidating (default: 0, always revalidate) */
+  staleTime?: number;
+  /** Fetch the next page in the background once a page arrives (default: true) */
+  prefetchNextPage?: boolean;
+  /** Revalidate stale data when the window regains focus (default: true) */
+  revalidateOnFocus?: boolean;
+  /**
+   * Accumulate pages instead of replacing them: `fetchNextPage` appends the next page to
+   * `data.content`. The query always starts on the first page.
+   */
+  infinite?: boolean;
+  /**
+   * "keyset" requests the rows after the previous page's last row (by its sort key values)
+   * instead of a page number; pages are then only reachable one after another (default: "offset")
+   */
+  pagination?: PaginationMode;
+  /** Unique key, the last keyset sort so every row has a distinct position (default: "id") */
+  idField?: string;
+  onDataChange?: (data: SpringPageOrSlice<T>) => void;
+}
+
+export interface DynamicQueryState<T = any> {
+  fields: Field[];
+  dataSource: DataSource<T>;
+  /** Current criteria, sort and paging */
+  query: DynamicQuery;
+  /** Builder of the current query: edit it in place, then call `commit` */
+  queryBuilder: QueryBuilder;
+  /** Query sent to the data source (current query plus projection, before keyset criteria) */
+  listQuery: DynamicQuery;
+  pagination: PaginationMode;
+  /** Current page; a Slice has no counts. In keyset mode it is numbered by the pages opened */
+  data: SpringPageOrSlice<T> | null;
+  /** No data for the current query yet (nothing cached) */
+  loading: boolean;
+  /** A request is running while data, possibly cached, is shown */
+  validating: boolean;
+  /**
+   * Error of the last fetch, cleared by the next successful one. When the failed fetch was
+   * a background revalidation, `data` still holds the previous page of the same query.
+   */
+  error: DataSourceError | null;
+  /** Replace the criteria of a key (removed when the values are incomplete) and go to the first page */
+  setFilter: (key: string, operation: CriteriaOperation, values: string[]) => void;
+  removeFilter: (key: string) => void;
+  /** Remove all criteria and restore the default sort and page size */
+  clearFilters: () => void;
+  /** Sort by a single key */
+  setSort: (key: string, direction: "asc" | "desc") => void;
+  /** Go to a page; in keyset mode only the next page or a page opened before */
+  setPage: (page: number) => void;
+  /** Change the page size and go to the first page */
+  setPageSize: (pageSize: number) => void;
+  /** Replace the whole query (e.g. a saved view), mirrored into the URL like any other change */
+  setQuery: (query: DynamicQuery | ((current: DynamicQuery) => DynamicQuery)) => void;
+  /** Apply in-place edits of `queryBuilder`; `resetPage` goes back to the first page */
+  commit: (options?: { resetPage?: boolean }) => void;
+  /** Forget cached pages of the data source and fetch the current one again */
+  refetch: () => Promise<void>;
+  /** More rows after the loaded ones (infinite mode) */
+  hasNextPage: boolean;
+  /** Append the page after the last loaded one to `data` (infinite mode) */
+  fetchNextPage: () => Promise<void>;
+  /** The next page is being loaded */
+  loadingMore: boolean;
+  /**
+   * Error of the last `fetchNextPage` (or keyset `setPage` without a cursor), the loaded
+   * rows are kept
+   */
+  loadMoreError: DataSourceError | null;
+  /** Patch the loaded page locally (optimistic updates) */
+  setData: Dispatch<SetStateAction<SpringPageOrSlice<T> | null>>;
+}
+
+/**
+ * Keyset cursors of the pages opened so far, for one criteria, sort and page size
+ */
+interface CursorStore {
+  key: string;
+  cursors: KeysetCursor[];
+}
+
+/**
+ * Cursors of the query's pages, started over when its criteria, sort or page size changed
+ */
+function getCursors(store: MutableRefObject<CursorStore>, query: DynamicQuery): KeysetCursor[] {
+  const key = getQueryKey({ ...query, page: undefined, select: undefined, selectAs: undefined });
+  if (store.current.key !== key) {
+    store.current = { key, cursors: [] };
+  }
+  return store.current.cursors;
+}
+
+/**
+ * Headless query state for Spring Dynamic Query endpoints: criteria, sort and paging,
+ * URL syncing and fetching, without any UI. DynamicQueryTable, FilterPanel and
+ * Pagination are built on it; card grids, charts or custom layouts can use it directly.
+ *
+ * Pages are cached per query (stale-while-revalidate): a cached page is shown at once
+ * and refreshed in the background. Superseded requests are aborted.
+ *
+ * In infinite mode `data` holds every loaded row, with the paging fields of the last
+ * loaded page. A background refresh only replaces the first page's rows.
+ */
+export function useDynamicQuery<T = any>({
+  fields,
+  dataSource,
+  apiUrl,
+  defaultSortField = "id",
+  pageSize = 20,
+  syncUrl = true,
+  select,
+  staleTime = 0,
+  prefetchNextPage = true,
+  revalidateOnFocus = true,
+  infinite = false,
+  pagination = "offset",
+  idField = "id",
+  onDataChange,
+}: UseDynamicQueryOptions<T>): DynamicQueryState<T> {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const keyset = pagination === "keyset";
+
+  const createDefaultBuilder = () => {
+    const builder = new QueryBuilder();
+    builder.setPage(0);
+    builder.setPageSize(pageSize);
+    builder.setSort(defaultSortField, "desc");
+    return builder;
+  };
+
+  // The URL is only read once; later changes come from the actions below
+  const [queryBuilder, setQueryBuilder] = useState<QueryBuilder>(() => {
+    const queryString = syncUrl ? searchParams.toString() : "";
+    if (!queryString) {
+      return createDefaultBuilder();
+    }
+    const builder = new QueryBuilder();
+    builder.fromQueryString(queryString);
+    // Appended pages and keyset cursors can't be restored from a page number
+    if (infinite || keyset) {
+      builder.setPage(0);
+    }
+    return builder;
+  });
+  const [data, setData] = useState<SpringPageOrSlice<T> | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [validating, setValidating] = useState(false);
+  const [error, setError] = useState<DataSourceError | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState<DataSourceError | null>(null);
+  // Request of the current query; replaced (and aborted) when the query changes
+  const controllerRef = useRef<AbortController | null>(null);
+  // Next page request of infinite mode, aborted when the query changes
+  const moreControllerRef = useRef<AbortController | null>(null);
+  // Query whose rows are in `data`, so a refresh of the same query keeps appended pages
+  const dataKeyRef = useRef<string | null>(null);
+  // Keyset cursor of each page opened so far, for the current criteria, sort and page size
+  const cursorsRef = useRef<CursorStore>({ key: "", cursors: [] });
+
+  const resolvedDataSource = useMemo<DataSource<T>>(() => {
+    if (dataSource) {
+      return dataSource;
+    }
+    if (!apiUrl) {
+      throw new Error("useDynamicQuery requires either a dataSource or an apiUrl");
+    }
+    return createRestDataSource<T>(apiUrl);
+  }, [dataSource, apiUrl]);
+
+  // Read at fetch time, so an inline data source object doesn't refetch on every render
+  const dataSourceRef = useRef(resolvedDataSource);
+  dataSourceRef.current = resolvedDataSource;
+  // Latest builder for updates that run after an await (e.g. a restored layout)
+  const builderRef = useRef(queryBuilder);
+  builderRef.current = queryBuilder;
+  // A notification: a new callback (e.g. an inline arrow) must not refetch
+  const onDataChangeRef = useRef(onDataChange);
+  onDataChangeRef.current = onDataChange;
+
+  // An inline select array is a new array on every render, its content is what counts
+  const selectKey = JSON.stringify(select || []);
+  const selectPaths = useMemo<string[]>(() => JSON.parse(selectKey), [selectKey]);
+
+  // Projection is applied per request and kept out of the URL
+  const listQuery = useMemo(() => {
+    if (selectPaths.length === 0) {
+      return queryBuilder.query;
+    }
+    // Keyset cursors are read from the rows, so their sort keys must be fetched too
+    const paths = keyset
+      ? Array.from(
+          new Set([
+            ...selectPaths,
+            ...getKeysetSorts(queryBuilder.query, idField).map((sort) => sort.field),
+          ])
+        )
+      : selectPaths;
+    return { ...queryBuilder.query, select: paths, selectAs: paths };
+  }, [queryBuilder, selectPaths, keyset, idField]);
+
+  // What is sent: in keyset mode the page number becomes criteria after the cursor of the
+  // page; a page without a known cursor starts over from the first one
+  const request = useMemo(() => {
+    const page = listQuery.page ?? 0;
+    if (!keyset) {
+      return { query: listQuery, page };
+    }
+    const cursor = page > 0 ? getCursors(cursorsRef, listQuery)[page] : undefined;
+    return cursor
+      ? { query: applyKeysetCursor(listQuery, cursor, idField), page }
+      : { query: { ...withKeysetSort(listQuery, idField), page: 0 }, page: 0 };
+  }, [listQuery, keyset, idField]);
+  const requestKey = getQueryKey(request.query);
+
+  // Keyset responses are first pages to the server, renumber them as the page requested
+  const toPage = useCallback(
+    (result: SpringPageOrSlice<T>, pageIndex: number) =>
+      keyset ? toKeysetPage(result, pageIndex) : result,
+    [keyset]
+  );
+
+  /**
+   * Query of the page after `page`, undefined on the last page or when the last row has
+   * no keyset cursor
+   */
+  const getNextPageQuery = useCallback(
+    (page: SpringPageOrSlice<T>): DynamicQuery | undefined => {
+      if (page.last) return undefined;
+      if (!keyset) {
+        return { ...listQuery, page: page.number + 1 };
+      }
+      const cursor = getKeysetCursor(page.content[page.content.length - 1], listQuery, idField);
+      return cursor ? applyKeysetCursor(listQuery, cursor, idField) : undefined;
+    },
+    [listQuery, keyset, idField]
+  );
+
+  const showPage = useCallback(
+    (page: SpringPageOrSlice<T>, options: { reset?: boolean } = {}) => {
+      const keepAppended = infinite && !options.reset && dataKeyRef.current === requestKey;
+      dataKeyRef.current = requestKey;
+      if (keepAppended) {
+        // Swap the first page's rows, keeping the position of the last appended page
+        setData((current) =>
+          current && current.number > page.number
+            ? {
+                ...page,
+                content: [...page.content, ...current.content.slice(page.size)],
+                number: current.number,
+                last: current.last,
+              }
+            : page
+        );
+      } else {
+        setData(page);
+      }
+      setError(null);
+      onDataChangeRef.current?.(page);
+    },
+    [infinite, requestKey]
+  );
+
+  const fetchData = useCallback(
+    async (options: { background?: boolean; force?: boolean } = {}) => {
+      controllerRef.current?.abort();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      setValidating(true);
+      if (!options.background) setLoading(true);
+
+      const source = dataSourceRef.current;
+      try {
+        const result = toPage(
+          await fetchPage(source, request.query, {
+            signal: controller.signal,
+            force: options.force,
+          }),
+          request.page
+        );
+        showPage(result, { reset: options.force });
+        const nextQuery = prefetchNextPage ? getNextPageQuery(result) : undefined;
+        if (nextQuery) {
+          prefetchPage(source, nextQuery);
+        }
+      } catch (err) {
+        if (isAbortError(err)) return;
+        setError(toDataSourceError(err));
+        // Rows of another query must not be shown as the result of this one
+        if (!options.background) {
+          dataKeyRef.current = null;
+          setData(null);
+        }
+      } finally {
+        if (controllerRef.current === controller) {
+          controllerRef.current = null;
+          setLoading(false);
+          setValidating(false);
+        }
+      }
+    },
+    [request, prefetchNextPage, toPage, showPage, getNextPageQuery]
+  );
+
+  /**
+   * Show the cached page of the current query, and fetch it when missing or older than staleTime
+   */
+  const revalidate = useCallback(() => {
+    const cached = getCachedPage(dataSourceRef.current, request.query);
+    if (cached) {
+      showPage(toPage(cached.data, request.page));
+    }
+    if (!cached || Date.now() - cached.updatedAt >= staleTime) {
+      fetchData({ background: !!cached });
+    } else if (controllerRef.current) {
+      // A request for the previous query must not overwrite the fresh page
+      controllerRef.current.abort();
+      controllerRef.current = null;
+      setLoading(false);
+      setValidating(false);
+    }
+  }, [request, fetchData, staleTime, toPage, showPage]);
+
+  // Load whenever the query or projection changes
+  useEffect(() => {
+    revalidate();
+  }, [revalidate]);
+
+  // Rows appended for another query don't belong to this one
+  useEffect(
+    () => () => {
+      moreControllerRef.current?.abort();
+      moreControllerRef.current = null;
+      setLoadingMore(false);
+      setLoadMoreError(null);
+    },
+    [requestKey]
+  );
+
+  // Abort the running request on unmount
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  useEffect(() => {
+    if (!revalidateOnFocus) return;
+    const handleFocus = () => {
+      const cached = getCachedPage(dataSourceRef.current, request.query);
+      if (cached && Date.now() - cached.updatedAt >= staleTime) {
+        fetchData({ background: true });
+      }
+    };
+    window.addEventListener("focus", handleFocus);
+    return () => window.removeEventListener("focus", handleFocus);
+  }, [revalidateOnFocus, request, staleTime, fetchData]);
+
+  const refetch = useCallback(async () => {
+    clearQueryCache(dataSourceRef.current);
+    await fetchData({ background: data !== null, force: true });
+  }, [fetchData, data]);
+
+  const hasNextPage = infinite && !!data && !data.last;
+
+  const fetchNextPage = useCallback(async () => {
+    if (!data || moreControllerRef.current) return;
+    // Rows of the previous query are still shown while the new one loads
+    const key = requestKey;
+    if (dataKeyRef.current !== key) return;
+    const nextQuery = getNextPageQuery(data);
+    if (!nextQuery) {
+      if (!data.last) setLoadMoreError(createKeysetCursorError());
+      return;
+    }
+    const controller = new AbortController();
+    moreControllerRef.current = controller;
+    setLoadingMore(true);
+    setLoadMoreError(null);
+
+    const source = dataSourceRef.current;
+    try {
+      // A prefetched page is appended as is; the first page's refresh keeps totals current
+      const result = toPage(
+        getCachedPage(source, nextQuery)?.data ??
+          (await fetchPage(source, nextQuery, { signal: controller.signal })),
+        data.number + 1
+      );
+      // The rows may have been replaced by another query meanwhile
+      if (controller.signal.aborted || dataKeyRef.current !== key) return;
+      setData((current) =>
+        current && current.number + 1 === result.number
+          ? { ...result, content: [...current.content, ...result.content] }
+          : current
+      );
+      const followingQuery = prefetchNextPage ? getNextPageQuery(result) : undefined;
+      if (followingQuery) {
+        prefetchPage(source, followingQuery);
+      }
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setLoadMoreError(toDataSourceError(err));
+    } finally {
+      if (moreControllerRef.current === controller) {
+        moreControllerRef.current = null;
+        setLoadingMore(false);
+      }
+    }
+  }, [data, requestKey, prefetchNextPage, toPage, getNextPageQuery]);
+
+  const apply = useCallback(
+    (builder: QueryBuilder) => {
+      // Actions edit the builder's query in place; memos and effects downstream are keyed on
+      // the query object, so every commit needs its own copy
+      const next = new QueryBuilder(structuredClone(builder.query));
+      builderRef.current = next;
+      setQueryBuilder(next);
+      if (syncUrl) {
+        router.replace(`?${next.toQueryString()}`, { scroll: false });
+      }
+    },
+    [router, syncUrl]
+  );
+
+  // Actions edit the latest builder, so callbacks from an earlier render (e.g. debounced
+  // filters) don't drop changes made in between
+  const commit = (options?: { resetPage?: boolean }) => {
+    if (options?.resetPage) {
+      builderRef.current.setPage(0);
+    }
+    apply(builderRef.current);
+  };
+
+  const setFilter = (key: string, operation: CriteriaOperation, values: string[]) => {
+    builderRef.current.removeCriteriaByKey(key);
+    if (hasRequiredValues(operation, values)) {
+      builderRef.current.addCriteria(key, operation, values);
+    }
+    commit({ resetPage: true });
+  };
+
+  const removeFilter = (key: string) => {
+    builderRef.current.removeCriteriaByKey(key);
+    commit({ resetPage: true });
+  };
+
+  const clearFilters = () => {
+    const builder = builderRef.current;
+    builder.clearCriteria();
+    builder.setPage(0);
+    builder.setPageSize(pageSize);
+    builder.setSort(defaultSortField, "desc");
+    commit();
+  };
+
+  const setSort = (key: string, direction: "asc" | "desc") => {
+    builderRef.current.setSort(key, direction);
+    commit();
+  };
+
+  const setPage = (page: number) => {
+    // A keyset page needs the last row of the page before it, so only the next page (or one
+    // opened before) can be reached
+    if (keyset && page > 0) {
+      const cursors = getCursors(cursorsRef, builderRef.current.query);
+      if (!cursors[page]) {
+        if (!data || data.last || data.number + 1 !== page) return;
+        const cursor = getKeysetCursor(data.content[data.content.length - 1], listQuery, idField);
+        if (!cursor) {
+          setLoadMoreError(createKeysetCursorError());
+          return;
+        }
+        cursors[page] = cursor;
+      }
+    }
+    builderRef.current.setPage(page);
+    commit();
+  };
+
+  const setPageSize = (newPageSize: number) => {
+    builderRef.current.setPageSize(newPageSize);
+    commit({ resetPage: true });
+  };
+
+  // Stable, so effects (e.g. a restored layout) can depend on it
+  const setQuery = useCallback(
+    (query: DynamicQuery | ((current: DynamicQuery) => DynamicQuery)) => {
+      const current = builderRef.current.query;
+      apply(new QueryBuilder(typeof query === "function" ? query(current) : query));
+    },
+    [apply]
+  );
+
+  return {
+    fields,
+    dataSource: resolvedDataSource,
+    query: queryBuilder.query,
+    queryBuilder,
+    listQuery,
+    pagination,
+    data,
+    loading,
+    validating,
+    error,
+    setFilter,
+    removeFilter,
+    clearFilters,
+    setSort,
+    setPage,
+    setPageSize,
+    setQuery,
+    commit,
+    refetch,
+    hasNextPage,
+    fetchNextPage,
+    loadingMore,
+    loadMoreError,
+    setData,
+  };
+}
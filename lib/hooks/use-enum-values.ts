@@ -0,0 +1,77 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { EnumField, EnumValuesSource } from "../types/field.types";
+import {
+  ResolvedEnumValues,
+  clearEnumValuesCache,
+  getEnumValues,
+  isRemoteEnum,
+  loadEnumValues,
+} from "../utils/enum-values";
+
+export interface EnumValuesState extends ResolvedEnumValues {
+  /** Remote values are being loaded */
+  loading: boolean;
+  /** Message of a failed load */
+  error: string | null;
+  /** Drop the cached values and load them again */
+  reload: () => void;
+}
+
+const EMPTY_VALUES: ResolvedEnumValues = { labels: {}, colors: {} };
+
+/**
+ * Values of an enum field: static values immediately, remote values once loaded (cached per source)
+ */
+export function useEnumValues(field: EnumField): EnumValuesState {
+  const remote = isRemoteEnum(field);
+  const [loaded, setLoaded] = useState<ResolvedEnumValues | undefined>(() =>
+    remote ? getEnumValues(field) : undefined
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  // Reload only when the source changes, not on every new field object
+  const source = field.enumValues;
+  const fieldRef = useRef(field);
+  fieldRef.current = field;
+
+  useEffect(() => {
+    if (!remote) return;
+    const current = fieldRef.current;
+    const cached = getEnumValues(current);
+    if (cached) {
+      setLoaded(cached);
+      return;
+    }
+
+    let cancelled = false;
+    setLoaded(undefined);
+    setError(null);
+    loadEnumValues(current)
+      .then((values) => {
+        if (!cancelled) setLoaded(values);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load values");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [remote, source, attempt]);
+
+  const reload = useCallback(() => {
+    if (!remote) return;
+    clearEnumValuesCache(source as EnumValuesSource);
+    setAttempt((count) => count + 1);
+  }, [remote, source]);
+
+  // Static values are read directly so edits to the field show up without a reload
+  const values = remote ? loaded : getEnumValues(field);
+  return {
+    ...(values || EMPTY_VALUES),
+    loading: remote && !values && !error,
+    error,
+    reload,
+  };
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import { create } from "zustand";
+import { Toast, ToastOptions } from "../types/toast.types";
+
+const DEFAULT_DURATION_MS = 5000;
+/** Older toasts are dropped beyond this many */
+const MAX_TOASTS = 5;
+
+interface ToastStore {
+  toasts: Toast[];
+}
+
+const useToastStore = create<ToastStore>(() => ({ toasts: [] }));
+
+const timers = new Map<string, ReturnType<typeof setTimeout>>();
+let toastCount = 0;
+
+/**
+ * Close a toast, or all toasts when no id is given
+ */
+export function dismissToast(id?: string): void {
+  const ids = id ? [id] : Array.from(timers.keys());
+  ids.forEach((toastId) => {
+    clearTimeout(timers.get(toastId));
+    timers.delete(toastId);
+  });
+  useToastStore.setState((state) => ({
+    toasts: id ? state.toasts.filter((t) => t.id !== id) : [],
+  }));
+}
+
+/**
+ * Show a toast from anywhere (components, data sources, event handlers). Returns its id.
+ * Toasts are rendered by a <Toaster /> mounted once in the app.
+ */
+export function toast(options: ToastOptions): string {
+  const id = options.id || `toast-${++toastCount}`;
+  const next: Toast = { variant: "default", ...options, id };
+
+  clearTimeout(timers.get(id));
+  timers.delete(id);
+  const duration = options.duration ?? DEFAULT_DURATION_MS;
+  if (duration > 0) {
+    timers.set(id, setTimeout(() => dismissToast(id), duration));
+  }
+
+  useToastStore.setState((state) => {
+    const others = state.toasts.filter((t) => t.id !== id);
+    return { toasts: [...others, next].slice(-MAX_TOASTS) };
+  });
+  return id;
+}
+
+/**
+ * Toasts currently shown
+ */
+export function useToasts(): Toast[] {
+  return useToastStore((state) => state.toasts);
+}
@@ -0,0 +1,122 @@
+"use client";
+
+import { RefObject, useCallback, useEffect, useState } from "react";
+
+export interface UseVirtualRowsOptions {
+  /** Number of rows */
+  count: number;
+  /** Scrolling element around the rows */
+  scrollRef: RefObject<HTMLElement>;
+  /** Sticky header inside the scrolling element, it covers the top of the viewport */
+  headerRef?: RefObject<HTMLElement>;
+  /** Row height (px) used until a row is measured */
+  estimateRowHeight?: number;
+  /** Rows rendered above and below the viewport */
+  overscan?: number;
+  /** Render every row when false */
+  enabled?: boolean;
+}
+
+export interface VirtualRows {
+  /** First rendered row */
+  start: number;
+  /** Index after the last rendered row */
+  end: number;
+  /** Height of the rows skipped above and below, for spacer rows */
+  paddingTop: number;
+  paddingBottom: number;
+  /** Measured (or estimated) row height */
+  rowHeight: number;
+  /** Ref for a rendered row, used to measure the actual row height */
+  measureRow: (element: HTMLElement | null) => void;
+  /** Scroll just enough to show a row */
+  scrollToIndex: (index: number) => void;
+}
+
+/**
+ * Rows to render for a scrolling list of rows of (about) equal height. Only the rows in
+ * the viewport plus `overscan` are rendered; spacers keep the scroll height.
+ */
+export function useVirtualRows({
+  count,
+  scrollRef,
+  headerRef,
+  estimateRowHeight = 53,
+  overscan = 10,
+  enabled = true,
+}: UseVirtualRowsOptions): VirtualRows {
+  const [rowHeight, setRowHeight] = useState(estimateRowHeight);
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: 0, headerHeight: 0 });
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!enabled || !element) return;
+
+    const update = () =>
+      setViewport({
+        scrollTop: element.scrollTop,
+        height: element.clientHeight,
+        headerHeight: headerRef?.current?.offsetHeight ?? 0,
+      });
+    update();
+    element.addEventListener("scroll", update, { passive: true });
+    const observer = new ResizeObserver(update);
+    observer.observe(element);
+    return () => {
+      element.removeEventListener("scroll", update);
+      observer.disconnect();
+    };
+  }, [enabled, scrollRef, headerRef]);
+
+  const measureRow = useCallback((element: HTMLElement | null) => {
+    if (!element) return;
+    const height = element.offsetHeight;
+    // Ignore sub-pixel differences, they would re-render on every scroll
+    setRowHeight((current) => (height > 0 && Math.abs(height - current) > 1 ? height : current));
+  }, []);
+
+  const scrollToIndex = useCallback(
+    (index: number) => {
+      const element = scrollRef.current;
+      if (!element) return;
+      const headerHeight = headerRef?.current?.offsetHeight ?? 0;
+      // Rows start below the header in the scrolled content
+      const top = headerHeight + index * rowHeight;
+      if (top - headerHeight < element.scrollTop) {
+        element.scrollTop = top - headerHeight;
+      } else if (top + rowHeight > element.scrollTop + element.clientHeight) {
+        element.scrollTop = top + rowHeight - element.clientHeight;
+      }
+    },
+    [scrollRef, headerRef, rowHeight]
+  );
+
+  if (!enabled) {
+    return {
+      start: 0,
+      end: count,
+      paddingTop: 0,
+      paddingBottom: 0,
+      rowHeight,
+      measureRow,
+      scrollToIndex,
+    };
+  }
+
+  const visibleHeight = Math.max(viewport.height - viewport.headerHeight, rowHeight);
+  const start = Math.max(0, Math.floor(viewport.scrollTop / rowHeight) - overscan);
+  const end = Math.min(
+    count,
+    Math.ceil((viewport.scrollTop + visibleHeight) / rowHeight) + overscan
+  );
+
+  return {
+    start: Math.min(start, end),
+    end,
+    paddingTop: Math.min(start, end) * rowHeight,
+    paddingBottom: (count - end) * rowHeight,
+    rowHeight,
+    measureRow,
+    scrollToIndex,
+  };
+}
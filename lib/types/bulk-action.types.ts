@@ -0,0 +1,34 @@
+/**
+ * Spring Dynamic Query UI - Bulk Action Definitions
+ */
+
+import React from "react";
+import { EntityId } from "./data-source.types";
+
+/**
+ * Outcome of a bulk action for a single row
+ */
+export interface BulkRowResult {
+  id: EntityId;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Custom action shown in the bulk action bar when rows are selected
+ */
+export interface BulkAction<T = any> {
+  /** Unique key of the action */
+  name: string;
+  label: string;
+  icon?: React.ReactNode;
+  /** Render the button (and confirmation) as destructive */
+  destructive?: boolean;
+  /** Ask for confirmation first; a function receives the selected rows */
+  confirm?: string | ((rows: T[]) => string);
+  /**
+   * Run the action. Return per-row results (see runForEachRow) to report
+   * partial failures; throwing marks every selected row as failed.
+   */
+  run: (rows: T[]) => Promise<BulkRowResult[] | void>;
+}
@@ -0,0 +1,68 @@
+/**
+ * Spring Dynamic Query UI - Data Source Definitions
+ *
+ * A DataSource is the transport layer between the table components and the
+ * backend. The default implementation talks REST to a Spring Dynamic Query
+ * endpoint, but any transport (axios, a BFF, GraphQL gateway...) can be
+ * plugged in as long as it keeps the SpringPage (or Slice) contract.
+ */
+
+import { DynamicQuery, SpringPageOrSlice } from "./field.types";
+
+/**
+ * Identifier of a single record (value of the table's idField)
+ */
+export type EntityId = string | number;
+
+/**
+ * Cause of a failed request:
+ * - network: the server could not be reached
+ * - timeout: no response in time
+ * - client:  4xx response (validation, auth, not found...)
+ * - server:  5xx response
+ * - unknown: anything else thrown by a custom data source
+ */
+export type DataSourceErrorKind = "network" | "timeout" | "client" | "server" | "unknown";
+
+/**
+ * Error body sent by Spring (DefaultErrorAttributes or RFC 7807 ProblemDetail)
+ */
+export interface SpringErrorBody {
+  timestamp?: string;
+  status?: number;
+  /** Reason phrase, e.g. "Bad Request" */
+  error?: string;
+  message?: string;
+  path?: string;
+  /** ProblemDetail fields */
+  type?: string;
+  title?: string;
+  detail?: string;
+  instance?: string;
+  /** Validation errors (MethodArgumentNotValidException) */
+  errors?: any[];
+}
+
+/**
+ * Per-request options of DataSource.list
+ */
+export interface ListOptions {
+  /** Aborted when the page is no longer needed (e.g. the query changed meanwhile) */
+  signal?: AbortSignal;
+}
+
+/**
+ * Transport contract used by DynamicQueryTable
+ */
+export interface DataSource<T = any> {
+  /** Fetch a page of records matching the dynamic query */
+  list(query: DynamicQuery, options?: ListOptions): Promise<SpringPageOrSlice<T>>;
+  /** Fetch a single record by id */
+  get(id: EntityId): Promise<T>;
+  /** Create a new record and return the persisted version */
+  create(data: Partial<T>): Promise<T>;
+  /** Update an existing record and return the persisted version */
+  update(id: EntityId, data: Partial<T>): Promise<T>;
+  /** Delete a record by id */
+  delete(id: EntityId): Promise<void>;
+}
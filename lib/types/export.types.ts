@@ -0,0 +1,25 @@
+/**
+ * Spring Dynamic Query UI - Export Definitions
+ */
+
+/**
+ * File format of an export
+ */
+export type ExportFormat = "csv" | "excel" | "json";
+
+/**
+ * Which rows are exported
+ * - page: rows of the current page
+ * - selected: selected rows of the current page
+ * - all: every page of the current query
+ */
+export type ExportScope = "page" | "selected" | "all";
+
+/**
+ * Progress of an "all pages" export
+ */
+export interface ExportProgress {
+  loaded: number;
+  /** Rows to load; unknown when the endpoint returns a Slice */
+  total?: number;
+}
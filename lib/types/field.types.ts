@@ -6,6 +6,7 @@
  */
 
 import { ReactNode } from "react";
+import type { DataSource, EntityId } from "./data-source.types";
 
 /**
  * Operations matching Spring CriteriaOperation enum
@@ -22,6 +23,26 @@ export enum CriteriaOperation {
   GREATER_THAN_OR_EQUAL = "GREATER_THAN_OR_EQUAL",
   LESS_THAN = "LESS_THAN",
   LESS_THAN_OR_EQUAL = "LESS_THAN_OR_EQUAL",
+  /** Value is one of values (values0=A&&B&&C) */
+  IN = "IN",
+  /** Value is none of values */
+  NOT_IN = "NOT_IN",
+  /** Inclusive range: values0=from&&to */
+  BETWEEN = "BETWEEN",
+  /** Value is null (no values) */
+  IS_NULL = "IS_NULL",
+  /** Value is not null (no values) */
+  IS_NOT_NULL = "IS_NOT_NULL",
+  CONTAIN_IGNORE_CASE = "CONTAIN_IGNORE_CASE",
+  DOES_NOT_CONTAIN_IGNORE_CASE = "DOES_NOT_CONTAIN_IGNORE_CASE",
+  START_WITH_IGNORE_CASE = "START_WITH_IGNORE_CASE",
+  END_WITH_IGNORE_CASE = "END_WITH_IGNORE_CASE",
+  EQUAL_IGNORE_CASE = "EQUAL_IGNORE_CASE",
+  NOT_EQUAL_IGNORE_CASE = "NOT_EQUAL_IGNORE_CASE",
+  /** Splits the criteria list: criteria before and after are ORed */
+  OR = "OR",
+  /** Parenthesis group: values[0] holds the nested Criteria[] as JSON */
+  PARENTHES = "PARENTHES",
 }
 
 /**
@@ -29,6 +50,8 @@ export enum CriteriaOperation {
  * 
  * Example URL format:
  * key0=name&operation0=CONTAIN&values0=test
+ * key1=status&operation1=IN&values1=ACTIVE&&PENDING
+ * key2=deletedAt&operation2=IS_NULL
  */
 export interface Criteria {
   key: string;
@@ -36,6 +59,28 @@ export interface Criteria {
   values: string[];
 }
 
+/**
+ * Logical operator joining the children of a criteria group
+ */
+export type CriteriaLogic = "AND" | "OR";
+
+/**
+ * Group of criteria in the criteria tree used by the advanced filter
+ *
+ * Serialized into the flat Criteria list with OR and PARENTHES operations:
+ * (a AND b) OR c  =>  a, b, OR, c
+ * a AND (b OR c)  =>  a, PARENTHES [b, OR, c]
+ */
+export interface CriteriaGroup {
+  logic: CriteriaLogic;
+  children: CriteriaNode[];
+}
+
+/**
+ * Node of the criteria tree: a single criteria or a nested group
+ */
+export type CriteriaNode = Criteria | CriteriaGroup;
+
 /**
  * Dynamic query structure matching Spring DynamicQuery argument resolver
  * 
@@ -53,9 +98,18 @@ export interface DynamicQuery {
 }
 
 /**
- * Spring Page response format
+ * Single sort entry (orderByN / orderByDirectionN pair)
+ */
+export interface SortOrder {
+  field: string;
+  direction: "asc" | "desc";
+}
+
+/**
+ * Spring Slice response format: a page without counts, `last` tells whether more rows follow.
+ * Returned by endpoints that skip the count query.
  */
-export interface SpringPage<T> {
+export interface SpringSlice<T> {
   content: T[];
   pageable: {
     pageNumber: number;
@@ -69,8 +123,6 @@ export interface SpringPage<T> {
     paged: boolean;
     unpaged: boolean;
   };
-  totalPages: number;
-  totalElements: number;
   last: boolean;
   size: number;
   number: number;
@@ -84,6 +136,51 @@ export interface SpringPage<T> {
   empty: boolean;
 }
 
+/**
+ * Spring Page response format
+ */
+export interface SpringPage<T> extends SpringSlice<T> {
+  totalPages: number;
+  totalElements: number;
+}
+
+/**
+ * Response of a list request: a Page, or a Slice when the backend doesn't count
+ */
+export type SpringPageOrSlice<T> = SpringPage<T> | SpringSlice<T>;
+
+/**
+ * How pages are requested: by page number, or after the last row's sort key values
+ */
+export type PaginationMode = "offset" | "keyset";
+
+/**
+ * A validation rule value, optionally with a custom error message
+ */
+export type ValidationRule<V> = V | { value: V; message: string };
+
+/**
+ * Field-level validation rules, turned into a zod schema by buildFormSchema
+ */
+export interface ValidationRules<T = any> {
+  /** Value must be present (a string is used as the error message) */
+  required?: boolean | string;
+  /** Minimum value for numbers (Integer, DateSec, DateTimeSec) */
+  min?: ValidationRule<number>;
+  /** Maximum value for numbers (Integer, DateSec, DateTimeSec) */
+  max?: ValidationRule<number>;
+  /** Minimum text length */
+  minLength?: ValidationRule<number>;
+  /** Maximum text length */
+  maxLength?: ValidationRule<number>;
+  /** Text must match the pattern */
+  pattern?: ValidationRule<RegExp>;
+  /** Custom check of the value: return an error message, or true/undefined when valid */
+  validate?: (value: T) => string | boolean | undefined;
+  /** Check against the other values of the record (e.g. end date after start date) */
+  crossField?: (value: T, record: Record<string, any>) => string | boolean | undefined;
+}
+
 /**
  * Base Field interface (like Java base class)
  * Contains common properties for all field types
@@ -109,6 +206,12 @@ export interface BaseField<T = any> {
   placeholder?: string;
   /** Default value for new records */
   defaultValue?: T;
+  /** Validation applied in the form and inline editing */
+  validation?: ValidationRules<T>;
+  /** Operations offered in the filter operator picker (default: all operations valid for the field type) */
+  allowedOperations?: CriteriaOperation[];
+  /** Operation selected when filtering starts (default: depends on field type) */
+  defaultOperation?: CriteriaOperation;
   /** Custom cell renderer for table display */
   renderCell?: (value: T, row: any) => ReactNode;
   /** Custom input renderer for form editing */
@@ -163,15 +266,50 @@ export interface DateTimeSecField extends BaseField<number> {
   type: "DateTimeSec";
 }
 
+/**
+ * Badge colour of an enum value in table cells and the detail view
+ */
+export type EnumColor =
+  | "gray"
+  | "red"
+  | "orange"
+  | "yellow"
+  | "green"
+  | "blue"
+  | "purple"
+  | "pink";
+
+/**
+ * Enum value as returned by a remote enum source
+ */
+export interface EnumOption {
+  value: string;
+  label: string;
+  color?: EnumColor;
+}
+
+/**
+ * Remote enum values: an endpoint URL (GET, JSON response) or an async loader.
+ * The response is a key to label map, a list of EnumOption, or a list of keys.
+ */
+export type EnumValuesSource =
+  | string
+  | (() => Promise<Record<string, string> | (EnumOption | string)[]>);
+
 /**
  * Enum field type with predefined values
  * Uses EQUAL operation with multiple values for filtering
  */
 export interface EnumField extends BaseField<string> {
   type: "Enum";
-  /** Required: Map of enum keys to human-readable labels */
-  enumValues: Record<string, string>;
-  /** Allow multiple selection in filter (default: true) */
+  /** Required: Map of enum keys to human-readable labels, or a remote source loaded once and cached */
+  enumValues: Record<string, string> | EnumValuesSource;
+  /** Optional: Badge colour per enum key (overrides colours sent by a remote source) */
+  enumColors?: Record<string, EnumColor>;
+  /**
+   * Allow multiple selection in filter (default: true): EQUAL/NOT_EQUAL and IN/NOT_IN filters use
+   * a chip picker emitting one criteria with all picked values. Set false for a single-value select.
+   */
   multiSelect?: boolean;
 }
 
@@ -189,14 +327,63 @@ export interface ImageField extends BaseField<string> {
   allowedTypes?: string[];
 }
 
+/**
+ * Formatting commands available in the rich text editor toolbar
+ */
+export type RichTextToolbarItem =
+  | "bold"
+  | "italic"
+  | "underline"
+  | "strike"
+  | "heading"
+  | "bulletList"
+  | "orderedList"
+  | "blockquote"
+  | "code"
+  | "link"
+  | "clear";
+
+/**
+ * Rich text editor configuration
+ */
+export interface RichTextEditorConfig {
+  /** Toolbar buttons in display order (default: all items allowed by allowedTags) */
+  toolbar?: RichTextToolbarItem[];
+  /** HTML tags kept by the sanitizer (default: DEFAULT_ALLOWED_TAGS) */
+  allowedTags?: string[];
+  /** Minimum editor height in pixels (default: 120) */
+  minHeight?: number;
+}
+
 /**
  * Rich text field type for HTML content
- * Stores HTML as string
+ * Stores HTML as string; values are sanitized whenever they are edited or rendered
  */
 export interface RichTextField extends BaseField<string> {
   type: "RichText";
   /** Optional: Rich text editor configuration */
-  editorConfig?: Record<string, any>;
+  editorConfig?: RichTextEditorConfig;
+}
+
+/**
+ * Relation (foreign key) field pointing at another Spring Dynamic Query endpoint
+ * Value is the related entity's id; labels are looked up from the related endpoint
+ * Uses EQUAL operation (IN for several values) for filtering
+ */
+export interface RelationField extends BaseField<EntityId> {
+  type: "Relation";
+  /** Required: related endpoint (e.g. "/api/categories") or a custom DataSource */
+  relationSource: string | DataSource;
+  /** Required: label path on the related entity, shown in cells and options (e.g. "name", "owner.fullName") */
+  displayPath: string;
+  /** Id path on the related entity (default: "id") */
+  valuePath?: string;
+  /** Path searched while typing in the picker (default: displayPath) */
+  searchPath?: string;
+  /** Extra criteria applied to option searches (e.g. only active entities) */
+  searchCriteria?: Criteria[];
+  /** Number of options loaded per search (default: 20) */
+  searchPageSize?: number;
 }
 
 /**
@@ -212,7 +399,8 @@ export type Field =
   | DateTimeSecField
   | EnumField
   | ImageField
-  | RichTextField;
+  | RichTextField
+  | RelationField;
 
 /**
  * Helper type to extract field value type from Field
@@ -0,0 +1,31 @@
+/**
+ * Spring Dynamic Query UI - Table Layout Definitions
+ *
+ * Per-table UI state persisted between visits (keyed by the table's tableId).
+ */
+
+/**
+ * Persisted layout of a single table
+ */
+export interface TableLayout {
+  /** Column visibility by field name */
+  columnVisibility?: Record<string, boolean>;
+  /** Field names in display order */
+  columnOrder?: string[];
+  /** Column widths in pixels by field name */
+  columnWidths?: Record<string, number>;
+  /** Rows per page */
+  pageSize?: number;
+  /** Filter panel pinned open */
+  filterPinned?: boolean;
+}
+
+/**
+ * Storage backend for table layouts.
+ * Methods may be sync (localStorage) or async (server persistence).
+ */
+export interface LayoutStorage {
+  load(tableId: string): TableLayout | null | Promise<TableLayout | null>;
+  save(tableId: string, layout: TableLayout): void | Promise<void>;
+  remove(tableId: string): void | Promise<void>;
+}
@@ -0,0 +1,31 @@
+/**
+ * Spring Dynamic Query UI - Row Selection Definitions
+ */
+
+import { DynamicQuery } from "./field.types";
+import { EntityId } from "./data-source.types";
+
+/**
+ * Rows picked one by one (possibly across pages)
+ */
+export interface IdSelection<T = any> {
+  mode: "ids";
+  ids: EntityId[];
+  /** The selected rows as they were loaded */
+  rows: T[];
+}
+
+/**
+ * "Select all matching": every row of the query, minus rows unticked afterwards.
+ * Rows are not loaded; resolve them with resolveSelectedRows or send the query to the server.
+ */
+export interface QuerySelection {
+  mode: "query";
+  /** Criteria and sort of the selection (no paging) */
+  query: DynamicQuery;
+  /** Number of rows matching the query when it was selected */
+  totalElements: number;
+  excludedIds: EntityId[];
+}
+
+export type RowSelection<T = any> = IdSelection<T> | QuerySelection;
@@ -0,0 +1,30 @@
+/**
+ * Spring Dynamic Query UI - Toast Definitions
+ *
+ * Short notifications raised by the components (or by your own code) and shown by <Toaster />.
+ */
+
+export type ToastVariant = "default" | "success" | "error";
+
+/**
+ * Button shown inside a toast (e.g. "Retry")
+ */
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
+export interface ToastOptions {
+  /** Reuse an id to replace a toast instead of stacking another one */
+  id?: string;
+  title: string;
+  description?: string;
+  variant?: ToastVariant;
+  action?: ToastAction;
+  /** Milliseconds until the toast closes itself (default: 5000, 0 keeps it until dismissed) */
+  duration?: number;
+}
+
+export interface Toast extends ToastOptions {
+  id: string;
+}
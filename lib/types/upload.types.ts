@@ -0,0 +1,25 @@
+/**
+ * Spring Dynamic Query UI - Upload Definitions
+ */
+
+/**
+ * Options passed to an upload handler for a single file
+ */
+export interface UploadOptions {
+  /** Upload progress in percent (0-100) */
+  onProgress?: (percent: number) => void;
+  /** Aborts the upload */
+  signal?: AbortSignal;
+}
+
+/**
+ * Uploads a file and resolves to the URL stored as the ImageField value
+ */
+export interface UploadHandler {
+  upload(file: File, options?: UploadOptions): Promise<string>;
+}
+
+/**
+ * Upload handlers by ImageField.uploadConfig ("default" is used for unknown configs)
+ */
+export type UploadHandlers = Record<string, UploadHandler>;
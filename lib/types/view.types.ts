@@ -0,0 +1,30 @@
+/**
+ * Spring Dynamic Query UI - Saved View Definitions
+ *
+ * Named filter presets a user can save, share and re-apply (keyed by the table's tableId).
+ */
+
+/**
+ * A named snapshot of a table's query and columns
+ */
+export interface SavedView {
+  id: string;
+  name: string;
+  /** Criteria and sort as produced by QueryBuilder.toQueryString() (without paging) */
+  query: string;
+  /** Column visibility by field name */
+  columnVisibility?: Record<string, boolean>;
+  /** Field names in display order */
+  columnOrder?: string[];
+  /** Applied when the table opens without a query in the URL */
+  isDefault?: boolean;
+}
+
+/**
+ * Storage backend for saved views.
+ * Methods may be sync (localStorage) or async (server persistence).
+ */
+export interface ViewStorage {
+  load(tableId: string): SavedView[] | Promise<SavedView[]>;
+  save(tableId: string, views: SavedView[]): void | Promise<void>;
+}
@@ -0,0 +1,41 @@
+/**
+ * Bulk Action Utilities
+ */
+
+import { EntityId } from "../types/data-source.types";
+import { BulkRowResult } from "../types/bulk-action.types";
+
+/**
+ * Run `fn` for every row and collect a result per row instead of failing on the first error.
+ * Rows are processed in small batches to avoid flooding the API.
+ */
+export async function runForEachRow<T>(
+  rows: T[],
+  getId: (row: T) => EntityId,
+  fn: (row: T) => Promise<unknown>,
+  concurrency = 4
+): Promise<BulkRowResult[]> {
+  const results: BulkRowResult[] = [];
+
+  for (let i = 0; i < rows.length; i += concurrency) {
+    const batch = rows.slice(i, i + concurrency);
+    const settled = await Promise.allSettled(batch.map((row) => fn(row)));
+    settled.forEach((outcome, idx) => {
+      const id = getId(batch[idx]);
+      results.push(
+        outcome.status === "fulfilled"
+          ? { id, success: true }
+          : {
+              id,
+              success: false,
+              error:
+                outcome.reason instanceof Error
+                  ? outcome.reason.message
+                  : String(outcome.reason),
+            }
+      );
+    });
+  }
+
+  return results;
+}
@@ -0,0 +1,162 @@
+/**
+ * Criteria Tree Utility
+ *
+ * Converts between the flat Criteria list sent to Spring Dynamic Query and a
+ * tree of AND/OR groups used by the advanced filter UI.
+ *
+ * Flat format follows the backend's CriteriaList semantics:
+ * - Criteria are ANDed until an OR criteria splits the list
+ * - A PARENTHES criteria wraps a nested Criteria list (JSON encoded in values[0])
+ *
+ * Example:
+ * a, b, OR, PARENTHES[c, OR, d]  <=>  (a AND b) OR (c OR d)
+ */
+
+import {
+  Criteria,
+  CriteriaGroup,
+  CriteriaNode,
+  CriteriaOperation,
+} from "../types/field.types";
+import { hasRequiredValues } from "./operations";
+
+/**
+ * Check whether a tree node is a group
+ */
+export function isCriteriaGroup(node: CriteriaNode): node is CriteriaGroup {
+  return (node as CriteriaGroup).children !== undefined;
+}
+
+/**
+ * Check whether a criteria is a complete condition (not an OR/PARENTHES marker, has key and values)
+ */
+export function isCompleteCriteria(criteria: Criteria): boolean {
+  return (
+    !!criteria.key &&
+    !!criteria.operation &&
+    criteria.operation !== CriteriaOperation.OR &&
+    criteria.operation !== CriteriaOperation.PARENTHES &&
+    hasRequiredValues(criteria.operation, criteria.values)
+  );
+}
+
+/**
+ * Check whether a flat criteria list uses OR or parenthesis groups
+ */
+export function hasGrouping(criteria: Criteria[]): boolean {
+  return criteria.some(
+    (c) =>
+      c.operation === CriteriaOperation.OR ||
+      c.operation === CriteriaOperation.PARENTHES
+  );
+}
+
+/**
+ * Create an OR criteria separator
+ */
+export function orCriteria(): Criteria {
+  return { key: "", operation: CriteriaOperation.OR, values: [] };
+}
+
+/**
+ * Create a PARENTHES criteria wrapping a nested criteria list
+ */
+export function parenthesCriteria(criteria: Criteria[]): Criteria {
+  return {
+    key: "",
+    operation: CriteriaOperation.PARENTHES,
+    values: [JSON.stringify(criteria)],
+  };
+}
+
+/**
+ * Read the nested criteria list of a PARENTHES criteria
+ */
+export function getParenthesCriteria(criteria: Criteria): Criteria[] {
+  try {
+    const nested = JSON.parse(criteria.values[0] || "[]");
+    return Array.isArray(nested) ? nested : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Convert a flat criteria list into a criteria tree (root is always a group)
+ */
+export function criteriaToTree(criteria: Criteria[]): CriteriaGroup {
+  const segments: CriteriaNode[][] = [[]];
+
+  criteria.forEach((c) => {
+    if (c.operation === CriteriaOperation.OR) {
+      segments.push([]);
+    } else if (c.operation === CriteriaOperation.PARENTHES) {
+      segments[segments.length - 1].push(
+        criteriaToTree(getParenthesCriteria(c))
+      );
+    } else {
+      segments[segments.length - 1].push(c);
+    }
+  });
+
+  const nonEmpty = segments.filter((segment) => segment.length > 0);
+  if (nonEmpty.length <= 1) {
+    return { logic: "AND", children: nonEmpty[0] || [] };
+  }
+
+  return {
+    logic: "OR",
+    children: nonEmpty.map((segment) =>
+      segment.length === 1 ? segment[0] : { logic: "AND", children: segment }
+    ),
+  };
+}
+
+/**
+ * Convert a criteria tree into the flat criteria list.
+ * Incomplete conditions and empty groups are skipped.
+ */
+export function treeToCriteria(group: CriteriaGroup): Criteria[] {
+  const parts: Criteria[][] = [];
+
+  group.children.forEach((child) => {
+    if (!isCriteriaGroup(child)) {
+      if (isCompleteCriteria(child)) {
+        parts.push([child]);
+      }
+      return;
+    }
+
+    const nested = treeToCriteria(child);
+    if (nested.length === 0) {
+      return;
+    }
+    // AND binds tighter than OR, so an AND group inside an OR group needs no parenthesis
+    const canInline =
+      group.logic === "OR" && child.logic === "AND" && !hasTopLevelOr(nested);
+    parts.push(canInline || nested.length === 1 ? nested : [parenthesCriteria(nested)]);
+  });
+
+  if (group.logic === "AND") {
+    return parts.flat();
+  }
+
+  return parts.flatMap((part, idx) => (idx === 0 ? part : [orCriteria(), ...part]));
+}
+
+function hasTopLevelOr(criteria: Criteria[]): boolean {
+  return criteria.some((c) => c.operation === CriteriaOperation.OR);
+}
+
+/**
+ * Count the conditions in a flat criteria list, including nested parenthesis groups
+ */
+export function countConditions(criteria: Criteria[]): number {
+  return criteria.reduce((count, c) => {
+    if (c.operation === CriteriaOperation.OR) return count;
+    if (c.operation === CriteriaOperation.PARENTHES) {
+      return count + countConditions(getParenthesCriteria(c));
+    }
+    return count + 1;
+  }, 0);
+}
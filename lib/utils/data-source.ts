@@ -0,0 +1,284 @@
+/**
+ * REST Data Source
+ *
+ * Default DataSource implementation for Spring Dynamic Query endpoints:
+ * - list:   GET    {baseUrl}?{QueryBuilder.toQueryString()}
+ * - get:    GET    {baseUrl}/{id}
+ * - create: POST   {baseUrl}
+ * - update: PUT    {baseUrl}/{id}  (or PATCH, see `updateMethod`)
+ * - delete: DELETE {baseUrl}/{id}
+ *
+ * Entity endpoints can be overridden with `{id}` placeholders, e.g.
+ * endpoints: { update: "/api/gifts/{id}/edit" }
+ */
+
+import { DynamicQuery, SpringPageOrSlice } from "../types/field.types";
+import {
+  DataSource,
+  DataSourceErrorKind,
+  EntityId,
+  ListOptions,
+  SpringErrorBody,
+} from "../types/data-source.types";
+import { QueryBuilder } from "./query-builder";
+
+export type RestOperation = "get" | "create" | "update" | "delete";
+
+/**
+ * Error thrown when a request fails: a non-2xx response (keeping the parsed body so
+ * callers can show server messages), or no response at all (network, timeout).
+ */
+export class DataSourceError extends Error {
+  /** HTTP status, 0 when no response was received */
+  readonly status: number;
+  /** Parsed response body, usually a Spring error body */
+  readonly body: any;
+  readonly kind: DataSourceErrorKind;
+
+  constructor(status: number, body: any, message?: string, kind?: DataSourceErrorKind) {
+    super(message || extractErrorMessage(body) || `Request failed with status ${status}`);
+    this.name = "DataSourceError";
+    this.status = status;
+    this.body = body;
+    this.kind = kind || (status >= 500 ? "server" : status >= 400 ? "client" : "unknown");
+  }
+
+  /**
+   * Spring error body of the response (DefaultErrorAttributes or ProblemDetail), if any
+   */
+  get springError(): SpringErrorBody | undefined {
+    return this.body && typeof this.body === "object" ? this.body : undefined;
+  }
+
+  /**
+   * Whether trying again may succeed (no response, 5xx, 408 or 429)
+   */
+  get retryable(): boolean {
+    return (
+      this.kind === "network" ||
+      this.kind === "timeout" ||
+      this.kind === "server" ||
+      this.status === 408 ||
+      this.status === 429
+    );
+  }
+}
+
+/**
+ * Whether an error comes from an aborted request (fetch AbortError or a cancelled cache request)
+ */
+export function isAbortError(error: unknown): boolean {
+  return (error as any)?.name === "AbortError";
+}
+
+/**
+ * Normalize any error thrown by a data source into a DataSourceError.
+ * Understands fetch network failures and axios-style errors (`error.response.status/data`).
+ */
+export function toDataSourceError(error: unknown): DataSourceError {
+  if (error instanceof DataSourceError) {
+    return error;
+  }
+  const anyError = error as any;
+  const response = anyError?.response;
+  if (response && typeof response.status === "number") {
+    return new DataSourceError(response.status, response.data);
+  }
+  if (anyError?.name === "TimeoutError" || anyError?.code === "ECONNABORTED") {
+    return new DataSourceError(0, undefined, "The server took too long to respond", "timeout");
+  }
+  // fetch rejects with a TypeError when the server can't be reached
+  if (error instanceof TypeError) {
+    return new DataSourceError(0, undefined, "Could not reach the server", "network");
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new DataSourceError(0, undefined, message, "unknown");
+}
+
+/**
+ * Short headline of an error for notifications and error states
+ */
+export function getErrorTitle(error: DataSourceError): string {
+  switch (error.kind) {
+    case "network":
+      return "Could not reach the server";
+    case "timeout":
+      return "The request timed out";
+    case "server":
+      return `Server error (${error.status})`;
+    case "client":
+      return error.status === 401 || error.status === 403
+        ? "You don't have access to this data"
+        : `Request rejected (${error.status})`;
+    default:
+      return "Something went wrong";
+  }
+}
+
+/**
+ * Pick a human-readable message from a Spring error body
+ * (DefaultErrorAttributes: message/error, ProblemDetail: detail/title)
+ */
+function extractErrorMessage(body: any): string | undefined {
+  if (!body) return undefined;
+  if (typeof body === "string") return body;
+  return body.message || body.detail || body.title || body.error;
+}
+
+export interface RestDataSourceOptions {
+  /** Headers sent with every request, or a (possibly async) function returning them (e.g. auth tokens) */
+  headers?: HeadersInit | (() => HeadersInit | Promise<HeadersInit>);
+  /** Credentials mode passed to fetch (e.g. "include" for cookie based auth) */
+  credentials?: RequestCredentials;
+  /** Custom fetch implementation (default: global fetch) */
+  fetcher?: typeof fetch;
+  /** HTTP method used for updates (default: "PUT") */
+  updateMethod?: "PUT" | "PATCH";
+  /** Override entity endpoints, `{id}` is replaced with the record id (default: {baseUrl}/{id}, create: {baseUrl}) */
+  endpoints?: Partial<Record<RestOperation, string>>;
+  /** Abort requests taking longer than this many milliseconds (default: no timeout) */
+  timeout?: number;
+}
+
+export class RestDataSource<T = any> implements DataSource<T> {
+  private readonly _baseUrl: string;
+  private readonly _options: RestDataSourceOptions;
+
+  constructor(baseUrl: string, options: RestDataSourceOptions = {}) {
+    this._baseUrl = baseUrl.replace(/\/+$/, "");
+    this._options = options;
+  }
+
+  /**
+   * Fetch a page of records using the Spring-compatible query string
+   */
+  async list(query: DynamicQuery, options: ListOptions = {}): Promise<SpringPageOrSlice<T>> {
+    const queryString = new QueryBuilder(query).toQueryString();
+    return this.request<SpringPageOrSlice<T>>(`${this._baseUrl}?${queryString}`, {
+      signal: options.signal,
+    });
+  }
+
+  /**
+   * Fetch a single record
+   */
+  async get(id: EntityId): Promise<T> {
+    return this.request<T>(this.entityUrl("get", id));
+  }
+
+  /**
+   * Create a new record
+   */
+  async create(data: Partial<T>): Promise<T> {
+    return this.request<T>(this.entityUrl("create"), {
+      method: "POST",
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * Update an existing record
+   */
+  async update(id: EntityId, data: Partial<T>): Promise<T> {
+    return this.request<T>(this.entityUrl("update", id), {
+      method: this._options.updateMethod || "PUT",
+      body: JSON.stringify(data),
+    });
+  }
+
+  /**
+   * Delete a record
+   */
+  async delete(id: EntityId): Promise<void> {
+    await this.request<void>(this.entityUrl("delete", id), {
+      method: "DELETE",
+    });
+  }
+
+  private entityUrl(operation: RestOperation, id?: EntityId): string {
+    const encodedId = id !== undefined ? encodeURIComponent(String(id)) : "";
+    const template = this._options.endpoints?.[operation];
+    if (template) {
+      return template.replace("{id}", encodedId);
+    }
+    return id !== undefined ? `${this._baseUrl}/${encodedId}` : this._baseUrl;
+  }
+
+  private async request<R>(url: string, init: RequestInit = {}): Promise<R> {
+    const { headers, credentials, fetcher = fetch, timeout } = this._options;
+    const resolvedHeaders =
+      typeof headers === "function" ? await headers() : headers;
+
+    const requestHeaders = new Headers(resolvedHeaders);
+    if (!requestHeaders.has("Accept")) {
+      requestHeaders.set("Accept", "application/json");
+    }
+    if (init.body && !requestHeaders.has("Content-Type")) {
+      requestHeaders.set("Content-Type", "application/json");
+    }
+
+    // One signal for both the caller's cancellation and the timeout
+    const controller = new AbortController();
+    const callerSignal = init.signal;
+    const abort = () => controller.abort();
+    if (callerSignal?.aborted) abort();
+    callerSignal?.addEventListener("abort", abort, { once: true });
+    let timedOut = false;
+    const timer = timeout
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeout)
+      : undefined;
+
+    let response: Response;
+    let text: string;
+    try {
+      response = await fetcher(url, {
+        ...init,
+        signal: controller.signal,
+        credentials,
+        headers: requestHeaders,
+      });
+      // DELETE and some PUT endpoints respond with 204 No Content
+      text = await response.text();
+    } catch (error) {
+      if (timedOut) {
+        throw new DataSourceError(0, undefined, `No response within ${timeout}ms`, "timeout");
+      }
+      if (isAbortError(error)) {
+        throw error;
+      }
+      throw new DataSourceError(0, undefined, "Could not reach the server", "network");
+    } finally {
+      clearTimeout(timer);
+      callerSignal?.removeEventListener("abort", abort);
+    }
+
+    const body = text ? parseBody(text) : undefined;
+
+    if (!response.ok) {
+      throw new DataSourceError(response.status, body);
+    }
+
+    return body as R;
+  }
+}
+
+function parseBody(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Create a new RestDataSource instance
+ */
+export function createRestDataSource<T = any>(
+  baseUrl: string,
+  options?: RestDataSourceOptions
+): RestDataSource<T> {
+  return new RestDataSource<T>(baseUrl, options);
+}
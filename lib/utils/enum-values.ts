@@ -0,0 +1,145 @@
+/**
+ * Enum Values
+ *
+ * Resolves EnumField.enumValues, which is either a static key to label map or a
+ * remote source (URL or async loader). Remote values are loaded once per source
+ * and cached; a failed load is retried the next time the values are requested.
+ */
+
+import { EnumColor, EnumField, EnumOption, EnumValuesSource } from "../types/field.types";
+import { DataSourceError } from "./data-source";
+
+/**
+ * Enum values ready for display
+ */
+export interface ResolvedEnumValues {
+  /** Label by enum key, in display order */
+  labels: Record<string, string>;
+  /** Badge colour by enum key */
+  colors: Record<string, EnumColor>;
+}
+
+interface CacheEntry {
+  values?: ResolvedEnumValues;
+  promise?: Promise<ResolvedEnumValues>;
+}
+
+const cache = new Map<EnumValuesSource, CacheEntry>();
+
+/**
+ * Whether the field's values come from a URL or loader instead of a static map
+ */
+export function isRemoteEnum(field: EnumField): boolean {
+  return typeof field.enumValues === "string" || typeof field.enumValues === "function";
+}
+
+/**
+ * Normalize a remote response: { KEY: "Label" }, [{ value, label, color }] or ["KEY"]
+ */
+export function normalizeEnumValues(
+  response: Record<string, string> | (EnumOption | string)[]
+): ResolvedEnumValues {
+  const result: ResolvedEnumValues = { labels: {}, colors: {} };
+
+  if (Array.isArray(response)) {
+    response.forEach((item) => {
+      if (typeof item === "string") {
+        result.labels[item] = item;
+      } else if (item && item.value !== undefined) {
+        const key = String(item.value);
+        result.labels[key] = item.label ?? key;
+        if (item.color) {
+          result.colors[key] = item.color;
+        }
+      }
+    });
+  } else if (response && typeof response === "object") {
+    Object.entries(response).forEach(([key, label]) => {
+      result.labels[key] = String(label);
+    });
+  }
+
+  return result;
+}
+
+async function fetchEnumValues(source: EnumValuesSource): Promise<ResolvedEnumValues> {
+  if (typeof source === "function") {
+    return normalizeEnumValues(await source());
+  }
+
+  const response = await fetch(source, { headers: { Accept: "application/json" } });
+  const text = await response.text();
+  let body: any = text;
+  try {
+    body = text ? JSON.parse(text) : undefined;
+  } catch {
+    // Keep the raw text for the error message
+  }
+  if (!response.ok) {
+    throw new DataSourceError(response.status, body);
+  }
+  return normalizeEnumValues(body);
+}
+
+const withFieldColors = (field: EnumField, values: ResolvedEnumValues): ResolvedEnumValues =>
+  field.enumColors ? { ...values, colors: { ...values.colors, ...field.enumColors } } : values;
+
+/**
+ * Values of an enum field if available without loading: static values, or cached remote ones
+ */
+export function getEnumValues(field: EnumField): ResolvedEnumValues | undefined {
+  if (!isRemoteEnum(field)) {
+    return {
+      labels: field.enumValues as Record<string, string>,
+      colors: field.enumColors || {},
+    };
+  }
+  const values = cache.get(field.enumValues as EnumValuesSource)?.values;
+  return values && withFieldColors(field, values);
+}
+
+/**
+ * Load the values of an enum field. Concurrent calls for the same source share one request.
+ */
+export async function loadEnumValues(field: EnumField): Promise<ResolvedEnumValues> {
+  const cached = getEnumValues(field);
+  if (cached) {
+    return cached;
+  }
+
+  const source = field.enumValues as EnumValuesSource;
+  let promise = cache.get(source)?.promise;
+  if (!promise) {
+    promise = fetchEnumValues(source).then(
+      (values) => {
+        cache.set(source, { values });
+        return values;
+      },
+      (error) => {
+        cache.delete(source);
+        throw error;
+      }
+    );
+    cache.set(source, { promise });
+  }
+
+  return withFieldColors(field, await promise);
+}
+
+/**
+ * Label of an enum key, falling back to the key while values are not loaded
+ */
+export function getEnumLabel(field: EnumField, value: any): string {
+  return getEnumValues(field)?.labels[value] || String(value);
+}
+
+/**
+ * Forget loaded remote values, for one source or all, so they are fetched again
+ */
+export function clearEnumValuesCache(source?: EnumValuesSource): void {
+  if (source) {
+    cache.delete(source);
+  } else {
+    cache.clear();
+  }
+}
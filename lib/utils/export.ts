@@ -0,0 +1,182 @@
+/**
+ * Export Utilities
+ *
+ * Serialize table rows to CSV, Excel (SpreadsheetML) or JSON and trigger a download.
+ * Values are formatted with the table's display rules (see formatFieldValue).
+ */
+
+import { DynamicQuery, Field, PaginationMode } from "../types/field.types";
+import { DataSource } from "../types/data-source.types";
+import { ExportFormat, ExportProgress } from "../types/export.types";
+import { formatFieldValue, getFieldValue } from "./format";
+import {
+  applyKeysetCursor,
+  createKeysetCursorError,
+  getKeysetCursor,
+  isSpringPage,
+  toKeysetPage,
+  withKeysetSort,
+} from "./pagination";
+
+const FILE_TYPES: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  csv: { extension: "csv", mimeType: "text/csv;charset=utf-8" },
+  // SpreadsheetML 2003 opens in Excel without a zip/xlsx library
+  excel: { extension: "xls", mimeType: "application/vnd.ms-excel" },
+  json: { extension: "json", mimeType: "application/json" },
+};
+
+const escapeCsv = (text: string): string =>
+  /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/**
+ * Rows as CSV with a header of field titles (BOM included so Excel detects UTF-8)
+ */
+export function toCsv(rows: any[], fields: Field[]): string {
+  const lines = [
+    fields.map((f) => escapeCsv(f.title)).join(","),
+    ...rows.map((row) =>
+      fields
+        .map((f) => escapeCsv(formatFieldValue(f, getFieldValue(row, f))))
+        .join(",")
+    ),
+  ];
+  return "\uFEFF" + lines.join("\r\n");
+}
+
+/**
+ * Rows as a single-sheet SpreadsheetML workbook.
+ * Integers stay numeric so they can be summed in Excel.
+ */
+export function toExcelXml(rows: any[], fields: Field[], sheetName = "Export"): string {
+  const cell = (field: Field | null, value: any): string => {
+    if (field?.type === "Integer" && typeof value === "number") {
+      return `<Cell><Data ss:Type="Number">${value}</Data></Cell>`;
+    }
+    const text = field ? formatFieldValue(field, value) : String(value);
+    return `<Cell><Data ss:Type="String">${escapeXml(text)}</Data></Cell>`;
+  };
+
+  const header = `<Row>${fields.map((f) => cell(null, f.title)).join("")}</Row>`;
+  const body = rows
+    .map((row) => `<Row>${fields.map((f) => cell(f, getFieldValue(row, f))).join("")}</Row>`)
+    .join("");
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<?mso-application progid="Excel.Sheet"?>',
+    '<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet" xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">',
+    `<Worksheet ss:Name="${escapeXml(sheetName.substring(0, 31))}"><Table>`,
+    header,
+    body,
+    "</Table></Worksheet></Workbook>",
+  ].join("");
+}
+
+/**
+ * Rows as a JSON array of { [field.name]: formattedValue }
+ */
+export function toJson(rows: any[], fields: Field[]): string {
+  const records = rows.map((row) =>
+    fields.reduce((acc, f) => {
+      acc[f.name] = formatFieldValue(f, getFieldValue(row, f));
+      return acc;
+    }, {} as Record<string, string>)
+  );
+  return JSON.stringify(records, null, 2);
+}
+
+/**
+ * Trigger a browser download of the given content
+ */
+export function downloadFile(content: string, fileName: string, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Serialize rows in the given format and download them as "{fileName}.{extension}"
+ */
+export function exportRows(
+  rows: any[],
+  fields: Field[],
+  exportFormat: ExportFormat,
+  fileName: string
+): void {
+  const { extension, mimeType } = FILE_TYPES[exportFormat];
+  const content =
+    exportFormat === "csv"
+      ? toCsv(rows, fields)
+      : exportFormat === "excel"
+        ? toExcelXml(rows, fields, fileName)
+        : toJson(rows, fields);
+  downloadFile(content, `${fileName}.${extension}`, mimeType);
+}
+
+export interface FetchAllPagesOptions {
+  /** Rows requested per page (default: 500) */
+  pageSize?: number;
+  /** Request pages by number or after the last row's sort keys (default: "offset") */
+  pagination?: PaginationMode;
+  /** Unique key, the last keyset sort (default: "id") */
+  idField?: string;
+  /** Cancels the export between pages */
+  signal?: AbortSignal;
+  onProgress?: (progress: ExportProgress) => void;
+}
+
+/**
+ * Page through every page (or slice) of a query and collect the rows.
+ * Rejects with an AbortError when the signal is aborted.
+ */
+export async function fetchAllPages<T>(
+  dataSource: DataSource<T>,
+  query: DynamicQuery,
+  options: FetchAllPagesOptions = {}
+): Promise<T[]> {
+  const { pageSize = 500, pagination = "offset", idField = "id", signal, onProgress } = options;
+  const keyset = pagination === "keyset";
+  const baseQuery: DynamicQuery = { ...query, pageSize };
+  const rows: T[] = [];
+
+  const throwIfAborted = () => {
+    if (signal?.aborted) {
+      throw new DOMException("Export cancelled", "AbortError");
+    }
+  };
+
+  let pageQuery = keyset ? { ...withKeysetSort(baseQuery, idField), page: 0 } : baseQuery;
+  for (let page = 0; ; page++) {
+    throwIfAborted();
+    const response = await dataSource.list(keyset ? pageQuery : { ...baseQuery, page });
+    throwIfAborted();
+    const result = keyset ? toKeysetPage(response, page) : response;
+    rows.push(...result.content);
+    const counted = isSpringPage(result);
+    onProgress?.({ loaded: rows.length, total: counted ? result.totalElements : undefined });
+
+    if (result.last || result.content.length === 0 || (counted && page + 1 >= result.totalPages)) {
+      return rows;
+    }
+    if (keyset) {
+      const cursor = getKeysetCursor(result.content[result.content.length - 1], baseQuery, idField);
+      if (!cursor) {
+        throw createKeysetCursorError();
+      }
+      pageQuery = applyKeysetCursor(baseQuery, cursor, idField);
+    }
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Field Value Access and Formatting
+ *
+ * Reading and writing values by field accessor, plus plain-text counterparts
+ * of the table's cell rendering rules, used wherever values leave the UI (exports).
+ */
+
+import { format } from "date-fns";
+import { Field } from "../types/field.types";
+import { htmlToText } from "./sanitize";
+import { getRelationLabel } from "./relation";
+import { getEnumLabel } from "./enum-values";
+
+/**
+ * Read a value by dotted path (e.g. "user.name")
+ */
+export function getPathValue(row: any, path: string): any {
+  let value = row;
+  for (const key of path.split(".")) {
+    if (value && typeof value === "object") {
+      value = value[key];
+    } else {
+      return null;
+    }
+  }
+  return value;
+}
+
+/**
+ * Read a field's value from a row, following dotted accessors (e.g. "user.name")
+ */
+export function getFieldValue(row: any, field: Field): any {
+  return getPathValue(row, field.accessor || field.name);
+}
+
+/**
+ * Return a copy of the row with a field's value replaced, following dotted accessors
+ */
+export function setFieldValue<T = any>(row: T, field: Field, value: any): T {
+  const [key, ...rest] = (field.accessor || field.name).split(".");
+  const source: any = row && typeof row === "object" ? row : {};
+  if (rest.length === 0) {
+    return { ...source, [key]: value };
+  }
+  return {
+    ...source,
+    [key]: setFieldValue(source[key], { ...field, accessor: rest.join(".") }, value),
+  };
+}
+
+/**
+ * Format a value as text with the same type rules as the table cells
+ * (enum and loaded relation labels, epoch seconds as dates, RichText without markup),
+ * without truncation
+ */
+export function formatFieldValue(field: Field, value: any): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+
+  switch (field.type) {
+    case "Boolean":
+      return value ? "Yes" : "No";
+
+    case "Enum":
+      return getEnumLabel(field, value);
+
+    case "DateSec":
+    case "DateTimeSec": {
+      const date = new Date(value * 1000);
+      return isNaN(date.getTime()) ? String(value) : format(date, "PPp");
+    }
+
+    case "Date": {
+      const date = typeof value === "string" ? new Date(value) : value;
+      return date instanceof Date && !isNaN(date.getTime())
+        ? format(date, "PPp")
+        : String(value);
+    }
+
+    case "RichText":
+      return htmlToText(String(value));
+
+    case "Relation":
+      return getRelationLabel(field, value) ?? String(value);
+
+    default:
+      return typeof value === "object" ? JSON.stringify(value) : String(value);
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Layout Storage
+ *
+ * Default LayoutStorage implementation backed by localStorage.
+ * Layouts are stored as JSON under "{prefix}{tableId}".
+ */
+
+import { LayoutStorage, TableLayout } from "../types/layout.types";
+
+const DEFAULT_PREFIX = "dynamicQueryTable.layout.";
+
+export class LocalStorageLayoutStorage implements LayoutStorage {
+  private readonly _prefix: string;
+
+  constructor(prefix: string = DEFAULT_PREFIX) {
+    this._prefix = prefix;
+  }
+
+  load(tableId: string): TableLayout | null {
+    if (typeof window === "undefined") return null;
+    try {
+      const saved = window.localStorage.getItem(this._prefix + tableId);
+      return saved ? (JSON.parse(saved) as TableLayout) : null;
+    } catch {
+      // Corrupt or inaccessible storage falls back to the default layout
+      return null;
+    }
+  }
+
+  save(tableId: string, layout: TableLayout): void {
+    if (typeof window === "undefined") return;
+    window.localStorage.setItem(this._prefix + tableId, JSON.stringify(layout));
+  }
+
+  remove(tableId: string): void {
+    if (typeof window === "undefined") return;
+    window.localStorage.removeItem(this._prefix + tableId);
+  }
+}
+
+/**
+ * Create a new LocalStorageLayoutStorage instance
+ */
+export function createLocalStorageLayoutStorage(prefix?: string): LocalStorageLayoutStorage {
+  return new LocalStorageLayoutStorage(prefix);
+}
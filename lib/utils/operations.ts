@@ -0,0 +1,209 @@
+/**
+ * Criteria Operation Utilities
+ *
+ * Defines which CriteriaOperations are valid for each field type, the default
+ * operation used when a filter is first applied, and display labels for the
+ * operator picker in FilterPanel.
+ */
+
+import { CriteriaOperation, Field } from "../types/field.types";
+
+export type FieldType = Field["type"];
+
+/**
+ * How many values an operation takes:
+ * - none:   no values (IS_NULL, IS_NOT_NULL, OR)
+ * - single: one value
+ * - multi:  one or more values (IN, NOT_IN)
+ * - range:  exactly two values, from and to (BETWEEN)
+ */
+export type OperationArity = "none" | "single" | "multi" | "range";
+
+const NULL_OPERATIONS = [CriteriaOperation.IS_NULL, CriteriaOperation.IS_NOT_NULL];
+
+const TEXT_OPERATIONS = [
+  CriteriaOperation.CONTAIN,
+  CriteriaOperation.CONTAIN_IGNORE_CASE,
+  CriteriaOperation.DOES_NOT_CONTAIN,
+  CriteriaOperation.DOES_NOT_CONTAIN_IGNORE_CASE,
+  CriteriaOperation.START_WITH,
+  CriteriaOperation.START_WITH_IGNORE_CASE,
+  CriteriaOperation.END_WITH,
+  CriteriaOperation.END_WITH_IGNORE_CASE,
+  CriteriaOperation.EQUAL,
+  CriteriaOperation.EQUAL_IGNORE_CASE,
+  CriteriaOperation.NOT_EQUAL,
+  CriteriaOperation.NOT_EQUAL_IGNORE_CASE,
+  CriteriaOperation.IN,
+  CriteriaOperation.NOT_IN,
+  CriteriaOperation.SPECIFIED,
+  ...NULL_OPERATIONS,
+];
+
+const COMPARABLE_OPERATIONS = [
+  CriteriaOperation.EQUAL,
+  CriteriaOperation.NOT_EQUAL,
+  CriteriaOperation.GREATER_THAN,
+  CriteriaOperation.GREATER_THAN_OR_EQUAL,
+  CriteriaOperation.LESS_THAN,
+  CriteriaOperation.LESS_THAN_OR_EQUAL,
+  CriteriaOperation.SPECIFIED,
+  ...NULL_OPERATIONS,
+];
+
+const NUMBER_OPERATIONS = [
+  ...COMPARABLE_OPERATIONS,
+  CriteriaOperation.BETWEEN,
+  CriteriaOperation.IN,
+  CriteriaOperation.NOT_IN,
+];
+
+/**
+ * Operations valid for each field type
+ */
+export const OPERATIONS_BY_FIELD_TYPE: Record<FieldType, CriteriaOperation[]> = {
+  String: TEXT_OPERATIONS,
+  RichText: TEXT_OPERATIONS,
+  Image: TEXT_OPERATIONS,
+  Integer: NUMBER_OPERATIONS,
+  // Date ranges are covered by FilterPanel's range picker (GREATER_THAN_OR_EQUAL + LESS_THAN_OR_EQUAL)
+  Date: COMPARABLE_OPERATIONS,
+  DateSec: COMPARABLE_OPERATIONS,
+  DateTimeSec: COMPARABLE_OPERATIONS,
+  Boolean: [
+    CriteriaOperation.SPECIFIED,
+    CriteriaOperation.EQUAL,
+    CriteriaOperation.NOT_EQUAL,
+    ...NULL_OPERATIONS,
+  ],
+  Enum: [
+    CriteriaOperation.EQUAL,
+    CriteriaOperation.NOT_EQUAL,
+    CriteriaOperation.IN,
+    CriteriaOperation.NOT_IN,
+    CriteriaOperation.SPECIFIED,
+    ...NULL_OPERATIONS,
+  ],
+  Relation: [
+    CriteriaOperation.EQUAL,
+    CriteriaOperation.NOT_EQUAL,
+    CriteriaOperation.IN,
+    CriteriaOperation.NOT_IN,
+    CriteriaOperation.SPECIFIED,
+    ...NULL_OPERATIONS,
+  ],
+};
+
+/**
+ * Operation used when a field does not set `defaultOperation`
+ */
+export const DEFAULT_OPERATION_BY_FIELD_TYPE: Record<FieldType, CriteriaOperation> = {
+  String: CriteriaOperation.CONTAIN,
+  RichText: CriteriaOperation.CONTAIN,
+  Image: CriteriaOperation.CONTAIN,
+  Integer: CriteriaOperation.EQUAL,
+  Date: CriteriaOperation.GREATER_THAN_OR_EQUAL,
+  DateSec: CriteriaOperation.GREATER_THAN_OR_EQUAL,
+  DateTimeSec: CriteriaOperation.GREATER_THAN_OR_EQUAL,
+  Boolean: CriteriaOperation.SPECIFIED,
+  Enum: CriteriaOperation.EQUAL,
+  Relation: CriteriaOperation.EQUAL,
+};
+
+/**
+ * Human-readable operator labels
+ */
+export const OPERATION_LABELS: Record<CriteriaOperation, string> = {
+  [CriteriaOperation.CONTAIN]: "Contains",
+  [CriteriaOperation.DOES_NOT_CONTAIN]: "Does not contain",
+  [CriteriaOperation.END_WITH]: "Ends with",
+  [CriteriaOperation.START_WITH]: "Starts with",
+  [CriteriaOperation.SPECIFIED]: "Is specified",
+  [CriteriaOperation.EQUAL]: "Equals",
+  [CriteriaOperation.NOT_EQUAL]: "Not equals",
+  [CriteriaOperation.GREATER_THAN]: "Greater than",
+  [CriteriaOperation.GREATER_THAN_OR_EQUAL]: "Greater than or equal",
+  [CriteriaOperation.LESS_THAN]: "Less than",
+  [CriteriaOperation.LESS_THAN_OR_EQUAL]: "Less than or equal",
+  [CriteriaOperation.IN]: "Is any of",
+  [CriteriaOperation.NOT_IN]: "Is none of",
+  [CriteriaOperation.BETWEEN]: "Between",
+  [CriteriaOperation.IS_NULL]: "Is null",
+  [CriteriaOperation.IS_NOT_NULL]: "Is not null",
+  [CriteriaOperation.CONTAIN_IGNORE_CASE]: "Contains (ignore case)",
+  [CriteriaOperation.DOES_NOT_CONTAIN_IGNORE_CASE]: "Does not contain (ignore case)",
+  [CriteriaOperation.START_WITH_IGNORE_CASE]: "Starts with (ignore case)",
+  [CriteriaOperation.END_WITH_IGNORE_CASE]: "Ends with (ignore case)",
+  [CriteriaOperation.EQUAL_IGNORE_CASE]: "Equals (ignore case)",
+  [CriteriaOperation.NOT_EQUAL_IGNORE_CASE]: "Not equals (ignore case)",
+  [CriteriaOperation.OR]: "Or",
+  [CriteriaOperation.PARENTHES]: "Group",
+};
+
+/**
+ * Get the operations a field can be filtered with.
+ * `field.allowedOperations` narrows the type's operations, it cannot add invalid ones.
+ */
+export function getAllowedOperations(field: Field): CriteriaOperation[] {
+  const typeOperations = OPERATIONS_BY_FIELD_TYPE[field.type];
+  if (!field.allowedOperations || field.allowedOperations.length === 0) {
+    return typeOperations;
+  }
+  const allowed = field.allowedOperations.filter((op) =>
+    typeOperations.includes(op)
+  );
+  return allowed.length > 0 ? allowed : typeOperations;
+}
+
+/**
+ * Get the operation applied when the user starts filtering a field
+ */
+export function getDefaultOperation(field: Field): CriteriaOperation {
+  const allowed = getAllowedOperations(field);
+  if (field.defaultOperation && allowed.includes(field.defaultOperation)) {
+    return field.defaultOperation;
+  }
+  const typeDefault = DEFAULT_OPERATION_BY_FIELD_TYPE[field.type];
+  return allowed.includes(typeDefault) ? typeDefault : allowed[0];
+}
+
+/**
+ * Check whether an operation is valid for a field
+ */
+export function isOperationAllowed(field: Field, operation: CriteriaOperation): boolean {
+  return getAllowedOperations(field).includes(operation);
+}
+
+/**
+ * Get the number of values an operation takes
+ */
+export function getOperationArity(operation: CriteriaOperation): OperationArity {
+  switch (operation) {
+    case CriteriaOperation.IS_NULL:
+    case CriteriaOperation.IS_NOT_NULL:
+    case CriteriaOperation.OR:
+      return "none";
+    case CriteriaOperation.IN:
+    case CriteriaOperation.NOT_IN:
+      return "multi";
+    case CriteriaOperation.BETWEEN:
+      return "range";
+    default:
+      return "single";
+  }
+}
+
+/**
+ * Check whether a criteria has the values its operation needs
+ */
+export function hasRequiredValues(operation: CriteriaOperation, values: string[]): boolean {
+  const filled = values.filter((value) => value !== "");
+  switch (getOperationArity(operation)) {
+    case "none":
+      return true;
+    case "range":
+      return filled.length === 2;
+    default:
+      return filled.length > 0;
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * Pagination Utilities
+ *
+ * Page responses with or without counts (Spring Page / Slice), and keyset paging:
+ * the page after a row is requested with criteria on the sort keys instead of a
+ * page number, so the database seeks to the row instead of counting past it.
+ *
+ * sort a desc, id desc, after (x, y)  =>  a < x OR (a = x AND id < y)
+ *
+ * The id is appended as the last sort key so every row has a unique position.
+ */
+
+import {
+  Criteria,
+  CriteriaOperation,
+  DynamicQuery,
+  SortOrder,
+  SpringPage,
+  SpringPageOrSlice,
+} from "../types/field.types";
+import { orCriteria, parenthesCriteria } from "./criteria-tree";
+import { DataSourceError } from "./data-source";
+import { getPathValue } from "./format";
+
+/**
+ * Sort key values of the last row of a page, in keyset sort order
+ */
+export type KeysetCursor = string[];
+
+/**
+ * Whether the response carries counts (Page) or not (Slice)
+ */
+export function isSpringPage<T>(page: SpringPageOrSlice<T>): page is SpringPage<T> {
+  return typeof (page as SpringPage<T>).totalElements === "number";
+}
+
+/**
+ * Sorts of a keyset query: the query's sorts plus the id as tie-breaker
+ */
+export function getKeysetSorts(query: DynamicQuery, idField: string): SortOrder[] {
+  const directions = query.orderByDirection || [];
+  const sorts: SortOrder[] = (query.orderBy || []).map((field, idx) => ({
+    field,
+    direction: directions[idx] || "asc",
+  }));
+  if (!sorts.some((sort) => sort.field === idField)) {
+    sorts.push({ field: idField, direction: sorts[0]?.direction || "asc" });
+  }
+  return sorts;
+}
+
+/**
+ * The query sorted by its keyset sorts (first page of keyset paging)
+ */
+export function withKeysetSort(query: DynamicQuery, idField: string): DynamicQuery {
+  const sorts = getKeysetSorts(query, idField);
+  return {
+    ...query,
+    orderBy: sorts.map((sort) => sort.field),
+    orderByDirection: sorts.map((sort) => sort.direction),
+  };
+}
+
+/**
+ * Cursor after a row, or null when one of its sort keys is empty (null can't be compared)
+ */
+export function getKeysetCursor(
+  row: any,
+  query: DynamicQuery,
+  idField: string
+): KeysetCursor | null {
+  const cursor: KeysetCursor = [];
+  for (const sort of getKeysetSorts(query, idField)) {
+    const value = getPathValue(row, sort.field);
+    if (value === null || value === undefined) {
+      return null;
+    }
+    cursor.push(String(value));
+  }
+  return cursor;
+}
+
+/**
+ * Error for a page that can't be requested because the row before it has no cursor
+ */
+export function createKeysetCursorError(): DataSourceError {
+  return new DataSourceError(
+    0,
+    undefined,
+    "The last row has no value for a sort key, the rows after it can't be requested",
+    "client"
+  );
+}
+
+/**
+ * The first page of the query's rows after the cursor
+ */
+export function applyKeysetCursor(
+  query: DynamicQuery,
+  cursor: KeysetCursor,
+  idField: string
+): DynamicQuery {
+  const sorts = getKeysetSorts(query, idField);
+  const keyset: Criteria[] = [];
+  sorts.forEach((sort, idx) => {
+    if (idx > 0) {
+      keyset.push(orCriteria());
+    }
+    sorts.slice(0, idx).forEach((previous, previousIdx) => {
+      keyset.push({
+        key: previous.field,
+        operation: CriteriaOperation.EQUAL,
+        values: [cursor[previousIdx]],
+      });
+    });
+    keyset.push({
+      key: sort.field,
+      operation:
+        sort.direction === "desc" ? CriteriaOperation.LESS_THAN : CriteriaOperation.GREATER_THAN,
+      values: [cursor[idx]],
+    });
+  });
+
+  // Criteria are ANDed up to the next OR, so a top-level OR must be grouped first
+  const filters = query.criteria.some((c) => c.operation === CriteriaOperation.OR)
+    ? [parenthesCriteria(query.criteria)]
+    : query.criteria;
+
+  return {
+    ...withKeysetSort(query, idField),
+    criteria: filters.length > 0 ? [...filters, parenthesCriteria(keyset)] : keyset,
+    page: 0,
+  };
+}
+
+/**
+ * Number a keyset response as page `pageIndex`: the server saw it as the first page.
+ * Counts of a Page response only cover the rows after the cursor, the skipped pages
+ * (always full) are added back.
+ */
+export function toKeysetPage<T>(
+  result: SpringPageOrSlice<T>,
+  pageIndex: number
+): SpringPageOrSlice<T> {
+  const offset = pageIndex * result.size;
+  const page = {
+    ...result,
+    number: pageIndex,
+    first: pageIndex === 0,
+    pageable: { ...result.pageable, pageNumber: pageIndex, offset },
+  };
+  if (!isSpringPage(result)) {
+    return page;
+  }
+  return {
+    ...page,
+    totalElements: offset + result.totalElements,
+    totalPages: pageIndex + result.totalPages,
+  };
+}
@@ -5,15 +5,24 @@
  * Format matches Spring Dynamic Query argument resolver exactly:
  * - Criteria: key0=fieldName&operation0=CONTAIN&values0=searchValue
  * - Multiple values: values0=val1&&val2 (joined with &&)
+ * - No values: key0=deletedAt&operation0=IS_NULL
+ * - OR / groups: key1=&operation1=OR, key2=&operation2=PARENTHES&values2=[...nested criteria JSON]
  * - Pagination: page=0&pageSize=20
  * - Sorting: orderBy0=id&orderByDirection0=desc
  */
 
-import { Criteria, CriteriaOperation, DynamicQuery } from "../types/field.types";
+import {
+  Criteria,
+  CriteriaOperation,
+  DynamicQuery,
+  SortOrder,
+} from "../types/field.types";
+import { getOperationArity } from "./operations";
 
 const KEY_FIELD = "key";
 const OPERATION_FIELD = "operation";
 const VALUES_FIELD = "values";
+const MULTI_VALUE_SEPARATOR = "&&";
 
 export class QueryBuilder {
   private _dynamicQuery: DynamicQuery;
@@ -53,9 +62,10 @@ export class QueryBuilder {
     this._dynamicQuery.criteria.forEach((criteria, idx) => {
       params.append(`${KEY_FIELD}${idx}`, criteria.key);
       params.append(`${OPERATION_FIELD}${idx}`, criteria.operation);
-      criteria.values.forEach((value) => {
-        params.append(`${VALUES_FIELD}${idx}`, value);
-      });
+      // Multiple values are joined with && (IN, NOT_IN, BETWEEN), no-value operations omit values
+      if (criteria.values.length > 0) {
+        params.append(`${VALUES_FIELD}${idx}`, criteria.values.join(MULTI_VALUE_SEPARATOR));
+      }
     });
 
     // Add select fields
@@ -144,9 +154,8 @@ export class QueryBuilder {
         if (!criteriaMap.get(idx)!.values) {
           criteriaMap.get(idx)!.values = [];
         }
-        // Handle multiple values joined with &&
-        const splitValues = decodeURIComponent(value).split("&&");
-        criteriaMap.get(idx)!.values!.push(...splitValues);
+        // Raw values, multiple values joined with && are split below
+        criteriaMap.get(idx)!.values!.push(value);
       }
 
       // Parse select
@@ -178,16 +187,35 @@ export class QueryBuilder {
       }
     });
 
-    // Convert criteriaMap to array
-    criteriaMap.forEach((criteriaObj) => {
-      if (criteriaObj.key && criteriaObj.operation && criteriaObj.values) {
+    // Convert criteriaMap to array, keeping index order (OR criteria are positional)
+    Array.from(criteriaMap.keys())
+      .sort((a, b) => a - b)
+      .forEach((idx) => {
+        const criteriaObj = criteriaMap.get(idx)!;
+        // OR and PARENTHES criteria have an empty key, OR has no values
+        if (criteriaObj.key === undefined || !criteriaObj.operation) {
+          return;
+        }
+        const rawValues = criteriaObj.values || [];
+        if (
+          rawValues.length === 0 &&
+          getOperationArity(criteriaObj.operation) !== "none"
+        ) {
+          return;
+        }
         criteria.push({
           key: criteriaObj.key,
           operation: criteriaObj.operation,
-          values: criteriaObj.values,
+          // PARENTHES carries JSON, which must not be split
+          values:
+            criteriaObj.operation === CriteriaOperation.PARENTHES
+              ? rawValues
+              : rawValues.flatMap((value) =>
+                  // Handle multiple values joined with &&; URLSearchParams already decoded them
+                  value.split(MULTI_VALUE_SEPARATOR)
+                ),
         });
-      }
-    });
+      });
 
     this._dynamicQuery = {
       criteria,
@@ -246,6 +274,13 @@ export class QueryBuilder {
     this.addCriteria(key, operation, values);
   }
 
+  /**
+   * Replace all criteria (e.g. with a serialized criteria tree)
+   */
+  setCriteria(criteria: Criteria[]): void {
+    this._dynamicQuery.criteria = criteria;
+  }
+
   /**
    * Set page number
    */
@@ -268,6 +303,77 @@ export class QueryBuilder {
     this._dynamicQuery.orderByDirection = [direction];
   }
 
+  /**
+   * Get all sorts in priority order
+   */
+  getSorts(): SortOrder[] {
+    const orderBy = this._dynamicQuery.orderBy || [];
+    const directions = this._dynamicQuery.orderByDirection || [];
+    return orderBy.map((field, idx) => ({
+      field,
+      direction: directions[idx] || "asc",
+    }));
+  }
+
+  /**
+   * Replace all sorts (first entry has the highest priority)
+   */
+  setSorts(sorts: SortOrder[]): void {
+    if (sorts.length === 0) {
+      this.clearSort();
+      return;
+    }
+    this._dynamicQuery.orderBy = sorts.map((s) => s.field);
+    this._dynamicQuery.orderByDirection = sorts.map((s) => s.direction);
+  }
+
+  /**
+   * Append a secondary sort, or change the direction of an existing one keeping its priority
+   */
+  addSort(field: string, direction: "asc" | "desc"): void {
+    const sorts = this.getSorts();
+    const existing = sorts.find((s) => s.field === field);
+    if (existing) {
+      existing.direction = direction;
+    } else {
+      sorts.push({ field, direction });
+    }
+    this.setSorts(sorts);
+  }
+
+  /**
+   * Remove a sort
+   */
+  removeSort(field: string): void {
+    this.setSorts(this.getSorts().filter((s) => s.field !== field));
+  }
+
+  /**
+   * Move a sort to another priority position (no-op when either index is out of range)
+   */
+  moveSort(fromIndex: number, toIndex: number): void {
+    const sorts = this.getSorts();
+    const inRange = (index: number) => index >= 0 && index < sorts.length;
+    if (!inRange(fromIndex) || !inRange(toIndex)) return;
+    const [moved] = sorts.splice(fromIndex, 1);
+    sorts.splice(toIndex, 0, moved);
+    this.setSorts(sorts);
+  }
+
+  /**
+   * Get the sort direction of a field, undefined if not sorted
+   */
+  getSortDirection(field: string): "asc" | "desc" | undefined {
+    return this.getSorts().find((s) => s.field === field)?.direction;
+  }
+
+  /**
+   * Get the priority index of a field's sort, -1 if not sorted
+   */
+  getSortIndex(field: string): number {
+    return (this._dynamicQuery.orderBy || []).indexOf(field);
+  }
+
   /**
    * Clear all sorting
    */
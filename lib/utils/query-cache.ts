@@ -0,0 +1,178 @@
+/**
+ * Query Cache
+ *
+ * Pages fetched through a DataSource, cached per data source and keyed by the
+ * serialized DynamicQuery. Concurrent requests for the same query share one
+ * network request, which is aborted once every caller has cancelled it.
+ */
+
+import { DynamicQuery, SpringPageOrSlice } from "../types/field.types";
+import { DataSource } from "../types/data-source.types";
+import { toQueryString } from "./query-builder";
+
+/** Cached queries per data source, the least recently written are dropped first */
+const MAX_CACHED_QUERIES = 50;
+
+/**
+ * Page of a query as last received from the server
+ */
+export interface CachedPage<T = any> {
+  data: SpringPageOrSlice<T>;
+  /** Time of the response (ms since epoch) */
+  updatedAt: number;
+}
+
+interface InFlightRequest<T> {
+  promise: Promise<SpringPageOrSlice<T>>;
+  controller: AbortController;
+  /** Callers still waiting with an abort signal */
+  consumers: number;
+}
+
+interface CacheEntry<T = any> {
+  page?: CachedPage<T>;
+  request?: InFlightRequest<T>;
+}
+
+let caches = new WeakMap<DataSource, Map<string, CacheEntry>>();
+
+function getEntries(dataSource: DataSource): Map<string, CacheEntry> {
+  let entries = caches.get(dataSource);
+  if (!entries) {
+    entries = new Map();
+    caches.set(dataSource, entries);
+  }
+  return entries;
+}
+
+/**
+ * Cache key of a query (its query string, including projection)
+ */
+export function getQueryKey(query: DynamicQuery): string {
+  return toQueryString(query);
+}
+
+function createAbortError(): Error {
+  const error = new Error("The request was aborted");
+  error.name = "AbortError";
+  return error;
+}
+
+function storePage<T>(
+  entries: Map<string, CacheEntry>,
+  key: string,
+  entry: CacheEntry<T>,
+  data: SpringPageOrSlice<T>
+) {
+  entry.page = { data, updatedAt: Date.now() };
+  // Re-insert so the Map order stays least recently written first
+  entries.delete(key);
+  entries.set(key, entry);
+  while (entries.size > MAX_CACHED_QUERIES) {
+    const oldest = entries.keys().next().value as string;
+    entries.delete(oldest);
+  }
+}
+
+/**
+ * Last received page of a query, if any
+ */
+export function getCachedPage<T = any>(
+  dataSource: DataSource<T>,
+  query: DynamicQuery
+): CachedPage<T> | undefined {
+  return getEntries(dataSource).get(getQueryKey(query))?.page;
+}
+
+export interface FetchPageOptions {
+  /** Stop waiting for the page; the request is aborted when no other caller needs it */
+  signal?: AbortSignal;
+  /** Start a new request even if one for the same query is running (e.g. after a mutation) */
+  force?: boolean;
+}
+
+/**
+ * Fetch a page and cache it. Joins a running request for the same query unless `force` is set.
+ */
+export function fetchPage<T = any>(
+  dataSource: DataSource<T>,
+  query: DynamicQuery,
+  { signal, force = false }: FetchPageOptions = {}
+): Promise<SpringPageOrSlice<T>> {
+  const entries = getEntries(dataSource);
+  const key = getQueryKey(query);
+  let entry = entries.get(key) as CacheEntry<T> | undefined;
+  if (!entry) {
+    entry = {};
+    entries.set(key, entry);
+  }
+  const cacheEntry = entry;
+
+  let request = force ? undefined : cacheEntry.request;
+  if (!request) {
+    const controller = new AbortController();
+    const promise = dataSource
+      .list(query, { signal: controller.signal })
+      .then((data) => {
+        storePage(entries, key, cacheEntry, data);
+        return data;
+      })
+      .finally(() => {
+        if (cacheEntry.request === started) {
+          cacheEntry.request = undefined;
+        }
+      });
+    const started: InFlightRequest<T> = { promise, controller, consumers: 0 };
+    cacheEntry.request = started;
+    request = started;
+  }
+
+  if (!signal) {
+    return request.promise;
+  }
+
+  const shared = request;
+  shared.consumers++;
+  return new Promise<SpringPageOrSlice<T>>((resolve, reject) => {
+    const handleAbort = () => {
+      shared.consumers--;
+      if (shared.consumers === 0) {
+        shared.controller.abort();
+      }
+      reject(createAbortError());
+    };
+    if (signal.aborted) {
+      handleAbort();
+      return;
+    }
+    signal.addEventListener("abort", handleAbort, { once: true });
+    shared.promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", handleAbort));
+  });
+}
+
+/**
+ * Warm the cache with a page the user is likely to open next (errors are ignored).
+ * Pages already cached are skipped; they are revalidated when opened.
+ */
+export function prefetchPage<T = any>(dataSource: DataSource<T>, query: DynamicQuery): void {
+  if (getCachedPage(dataSource, query)) {
+    return;
+  }
+  fetchPage(dataSource, query).catch(() => {
+    // A failed prefetch is retried when the page is actually opened
+  });
+}
+
+/**
+ * Forget cached pages of a data source, or of all data sources, so they are fetched again
+ */
+export function clearQueryCache(dataSource?: DataSource): void {
+  // Running requests finish into the dropped map, so their results aren't reused either
+  if (dataSource) {
+    caches.delete(dataSource);
+  } else {
+    caches = new WeakMap();
+  }
+}
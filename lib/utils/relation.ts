@@ -0,0 +1,189 @@
+/**
+ * Relation Lookups
+ *
+ * Option search and id-to-label resolution for Relation fields. Labels are cached
+ * per related endpoint; ids missing from the cache are fetched with a single
+ * IN request per batch (e.g. one request per table page and relation column).
+ */
+
+import { CriteriaOperation, RelationField } from "../types/field.types";
+import { DataSource, EntityId } from "../types/data-source.types";
+import { createRestDataSource } from "./data-source";
+import { getPathValue } from "./format";
+
+/**
+ * Entry of the relation picker
+ */
+export interface RelationOption {
+  /** Related entity id (value stored in the field) */
+  value: EntityId;
+  /** Text read from the field's displayPath */
+  label: string;
+  /** Related entity as returned by the endpoint */
+  record: any;
+}
+
+interface LabelCache {
+  /** Label by id; null when the id was looked up but not found */
+  labels: Map<string, string | null>;
+  /** Running lookups by id */
+  pending: Map<string, Promise<void>>;
+}
+
+const restSources = new Map<string, DataSource>();
+const sourceKeys = new WeakMap<DataSource, string>();
+const labelCaches = new Map<string, LabelCache>();
+let sourceCount = 0;
+
+/**
+ * Data source of the related endpoint (REST sources are shared per URL)
+ */
+export function getRelationDataSource(field: RelationField): DataSource {
+  const source = field.relationSource;
+  if (typeof source !== "string") {
+    return source;
+  }
+  let dataSource = restSources.get(source);
+  if (!dataSource) {
+    dataSource = createRestDataSource(source);
+    restSources.set(source, dataSource);
+  }
+  return dataSource;
+}
+
+function getLabelCache(field: RelationField): LabelCache {
+  const source = field.relationSource;
+  let sourceKey: string;
+  if (typeof source === "string") {
+    sourceKey = source;
+  } else {
+    sourceKey = sourceKeys.get(source) || `source-${++sourceCount}`;
+    sourceKeys.set(source, sourceKey);
+  }
+
+  // Fields reading another id/label path of the same endpoint need their own labels
+  const key = `${sourceKey}|${field.valuePath || "id"}|${field.displayPath}`;
+  let cache = labelCaches.get(key);
+  if (!cache) {
+    cache = { labels: new Map(), pending: new Map() };
+    labelCaches.set(key, cache);
+  }
+  return cache;
+}
+
+/**
+ * Turn a related entity into a picker option and remember its label
+ */
+function toOption(field: RelationField, record: any): RelationOption {
+  const value = getPathValue(record, field.valuePath || "id");
+  const label = getPathValue(record, field.displayPath);
+  const option: RelationOption = {
+    value,
+    label: label === null || label === undefined ? String(value) : String(label),
+    record,
+  };
+  getLabelCache(field).labels.set(String(value), option.label);
+  return option;
+}
+
+/**
+ * Cached label of a related id (undefined while not loaded, or when the id does not exist)
+ */
+export function getRelationLabel(
+  field: RelationField,
+  id: EntityId | null | undefined
+): string | undefined {
+  if (id === null || id === undefined || id === "") return undefined;
+  return getLabelCache(field).labels.get(String(id)) ?? undefined;
+}
+
+/**
+ * Cached labels of the given ids, by id (ids without a loaded label are left out)
+ */
+export function getRelationLabels(
+  field: RelationField,
+  ids: (EntityId | null | undefined)[]
+): Record<string, string> {
+  const labels: Record<string, string> = {};
+  ids.forEach((id) => {
+    const label = getRelationLabel(field, id);
+    if (label !== undefined) {
+      labels[String(id)] = label;
+    }
+  });
+  return labels;
+}
+
+/**
+ * Load the labels of the given ids. Ids that are cached or already being loaded are
+ * skipped; the rest are fetched with one IN request.
+ */
+export async function loadRelationLabels(
+  field: RelationField,
+  ids: (EntityId | null | undefined)[]
+): Promise<void> {
+  const cache = getLabelCache(field);
+  const uniqueIds = Array.from(
+    new Set(ids.filter((id) => id !== null && id !== undefined && id !== "").map(String))
+  );
+  const missing = uniqueIds.filter((id) => !cache.labels.has(id) && !cache.pending.has(id));
+
+  if (missing.length > 0) {
+    const valuePath = field.valuePath || "id";
+    const request = getRelationDataSource(field)
+      .list({
+        criteria: [{ key: valuePath, operation: CriteriaOperation.IN, values: missing }],
+        page: 0,
+        pageSize: missing.length,
+      })
+      .then((page) => {
+        page.content.forEach((record) => toOption(field, record));
+        // Remember ids the endpoint does not know so they aren't requested again
+        missing
+          .filter((id) => !cache.labels.has(id))
+          .forEach((id) => cache.labels.set(id, null));
+      })
+      .finally(() => missing.forEach((id) => cache.pending.delete(id)));
+    missing.forEach((id) => cache.pending.set(id, request));
+  }
+
+  await Promise.all(
+    uniqueIds.map((id) => cache.pending.get(id)).filter((request) => !!request)
+  );
+}
+
+/**
+ * Search related entities by the field's searchPath (CONTAIN_IGNORE_CASE), sorted by label
+ */
+export async function searchRelationOptions(
+  field: RelationField,
+  search: string
+): Promise<RelationOption[]> {
+  const text = search.trim();
+  const page = await getRelationDataSource(field).list({
+    criteria: [
+      ...(field.searchCriteria || []),
+      ...(text
+        ? [
+            {
+              key: field.searchPath || field.displayPath,
+              operation: CriteriaOperation.CONTAIN_IGNORE_CASE,
+              values: [text],
+            },
+          ]
+        : []),
+    ],
+    orderBy: [field.displayPath],
+    orderByDirection: ["asc"],
+    page: 0,
+    pageSize: field.searchPageSize || 20,
+  });
+  return page.content.map((record) => toOption(field, record));
+}
+
+/**
+ * Forget all cached labels (e.g. after related entities were renamed)
+ */
+export function clearRelationCache(): void {
+  labelCaches.clear();
+}
@@ -0,0 +1,254 @@
+/**
+ * HTML Sanitizing
+ *
+ * Allowlist sanitizer for RichText values and plain-text excerpts for table cells.
+ * String based, so it behaves the same during server rendering and in the browser.
+ */
+
+/**
+ * Tags kept by default: the markup produced by the rich text editor toolbar
+ */
+export const DEFAULT_ALLOWED_TAGS = [
+  "p",
+  "div",
+  "br",
+  "hr",
+  "b",
+  "strong",
+  "i",
+  "em",
+  "u",
+  "s",
+  "strike",
+  "h1",
+  "h2",
+  "h3",
+  "ul",
+  "ol",
+  "li",
+  "blockquote",
+  "pre",
+  "code",
+  "a",
+];
+
+/** Attributes kept per tag; everything else (event handlers, style, class...) is dropped */
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  a: ["href", "title"],
+};
+
+const URL_ATTRIBUTES = ["href"];
+const SAFE_PROTOCOLS = ["http", "https", "mailto", "tel"];
+
+const VOID_TAGS = ["br", "hr"];
+const BLOCK_TAGS = ["p", "div", "br", "hr", "h1", "h2", "h3", "h4", "h5", "h6", "li", "blockquote", "pre", "tr"];
+
+/** Tags removed together with their content */
+const DROPPED_TAGS = [
+  "script",
+  "style",
+  "iframe",
+  "object",
+  "embed",
+  "noscript",
+  "template",
+  "textarea",
+  "title",
+  "select",
+  "svg",
+  "math",
+];
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: "\u00a0",
+  colon: ":",
+  tab: "\t",
+  newline: "\n",
+};
+
+// Comments, doctypes and processing instructions, or a start/end tag
+const TOKEN_PATTERN =
+  /<!--[\s\S]*?(?:-->|$)|<![^>]*>?|<\?[^>]*>?|<(\/?)([a-zA-Z][a-zA-Z0-9-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+const ATTRIBUTE_PATTERN = /([^\s"'<>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+type HtmlToken =
+  | { type: "text"; text: string }
+  | { type: "tag"; name: string; closing: boolean; attributes: string };
+
+/**
+ * Split HTML into text and tags. Comments and the content of dropped tags are skipped.
+ */
+function tokenize(html: string): HtmlToken[] {
+  const tokens: HtmlToken[] = [];
+  const lower = html.toLowerCase();
+  const pattern = new RegExp(TOKEN_PATTERN.source, "g");
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(html))) {
+    if (match.index > lastIndex) {
+      tokens.push({ type: "text", text: html.slice(lastIndex, match.index) });
+    }
+    lastIndex = pattern.lastIndex;
+
+    const [, closing, rawName, attributes] = match;
+    if (!rawName) continue;
+    const name = rawName.toLowerCase();
+
+    if (!closing && DROPPED_TAGS.includes(name)) {
+      // Skip up to and including the matching end tag (or the rest of the input)
+      const end = lower.indexOf(`</${name}`, lastIndex);
+      const close = end === -1 ? -1 : html.indexOf(">", end);
+      lastIndex = close === -1 ? html.length : close + 1;
+      pattern.lastIndex = lastIndex;
+      continue;
+    }
+
+    tokens.push({ type: "tag", name, closing: !!closing, attributes: attributes || "" });
+  }
+
+  if (lastIndex < html.length) {
+    tokens.push({ type: "text", text: html.slice(lastIndex) });
+  }
+  return tokens;
+}
+
+/**
+ * Decode named (common) and numeric character references
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);?/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code =
+        entity[1] === "x" || entity[1] === "X"
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : "";
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+const escapeText = (text: string): string =>
+  text
+    .replace(/&(?!(?:[a-z]+|#\d+|#x[0-9a-f]+);)/gi, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+
+const escapeAttribute = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+
+/**
+ * Whether a URL is relative or uses an allowed protocol (rejects javascript:, data:, vbscript:...)
+ */
+export function isSafeUrl(url: string): boolean {
+  // Browsers ignore whitespace and control characters inside the scheme
+  const normalized = decodeEntities(url).replace(/[\u0000- \u007f-\u009f]/g, "");
+  const scheme = normalized.match(/^([^/?#]*):/);
+  return !scheme || SAFE_PROTOCOLS.includes(scheme[1].toLowerCase());
+}
+
+function sanitizeAttributes(tag: string, source: string): string {
+  const allowed = ALLOWED_ATTRIBUTES[tag];
+  if (!allowed) return "";
+
+  const pattern = new RegExp(ATTRIBUTE_PATTERN.source, "g");
+  const kept: Record<string, string> = {};
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    const name = match[1].toLowerCase();
+    const value = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+    if (!allowed.includes(name) || name in kept) continue;
+    if (URL_ATTRIBUTES.includes(name) && !isSafeUrl(value)) continue;
+    kept[name] = value;
+  }
+
+  // Links always open in a new tab without access to the opener
+  if (tag === "a" && kept.href) {
+    kept.target = "_blank";
+    kept.rel = "noopener noreferrer";
+  }
+
+  return Object.entries(kept)
+    .map(([name, value]) => ` ${name}="${escapeAttribute(value)}"`)
+    .join("");
+}
+
+/**
+ * Keep only allowed tags and safe attributes. Disallowed tags are unwrapped (their text
+ * stays), scripts/styles/frames are removed with their content, and unclosed tags are closed.
+ */
+export function sanitizeHtml(
+  html: string | null | undefined,
+  allowedTags: string[] = DEFAULT_ALLOWED_TAGS
+): string {
+  if (!html) return "";
+
+  const allowed = allowedTags.map((tag) => tag.toLowerCase());
+  const open: string[] = [];
+  let output = "";
+
+  tokenize(String(html)).forEach((token) => {
+    if (token.type === "text") {
+      output += escapeText(token.text);
+      return;
+    }
+    if (!allowed.includes(token.name)) return;
+
+    if (token.closing) {
+      const index = open.lastIndexOf(token.name);
+      // Stray end tags are dropped; tags left open inside this one are closed first
+      while (index !== -1 && open.length > index) {
+        output += `</${open.pop()}>`;
+      }
+      return;
+    }
+
+    output += `<${token.name}${sanitizeAttributes(token.name, token.attributes)}>`;
+    if (!VOID_TAGS.includes(token.name)) {
+      open.push(token.name);
+    }
+  });
+
+  while (open.length > 0) {
+    output += `</${open.pop()}>`;
+  }
+  return output;
+}
+
+/**
+ * Plain text of an HTML fragment: tags removed, entities decoded, whitespace collapsed.
+ * Block-level tags become spaces so words of adjacent paragraphs don't run together.
+ */
+export function htmlToText(html: string | null | undefined): string {
+  if (!html) return "";
+
+  const text = tokenize(String(html))
+    .map((token) =>
+      token.type === "text" ? token.text : BLOCK_TAGS.includes(token.name) ? " " : ""
+    )
+    .join("");
+
+  return decodeEntities(text).replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Short plain-text preview of an HTML fragment, cut at a word boundary when possible
+ */
+export function textExcerpt(html: string | null | undefined, maxLength = 50): string {
+  const text = htmlToText(html);
+  if (text.length <= maxLength) return text;
+
+  const cut = text.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${(lastSpace > maxLength * 0.6 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+}
@@ -0,0 +1,48 @@
+/**
+ * Row Selection Utilities
+ */
+
+import { DataSource, EntityId } from "../types/data-source.types";
+import { IdSelection, RowSelection } from "../types/selection.types";
+import { fetchAllPages, FetchAllPagesOptions } from "./export";
+
+/**
+ * An empty id-based selection
+ */
+export function emptySelection<T = any>(): IdSelection<T> {
+  return { mode: "ids", ids: [], rows: [] };
+}
+
+/**
+ * Number of rows in the selection
+ */
+export function getSelectionCount(selection: RowSelection): number {
+  return selection.mode === "ids"
+    ? selection.ids.length
+    : Math.max(0, selection.totalElements - selection.excludedIds.length);
+}
+
+/**
+ * Whether the row with the given id is part of the selection
+ */
+export function isRowSelected(selection: RowSelection, id: EntityId): boolean {
+  return selection.mode === "ids"
+    ? selection.ids.includes(id)
+    : !selection.excludedIds.includes(id);
+}
+
+/**
+ * Load the selected rows. Query selections page through the data source.
+ */
+export async function resolveSelectedRows<T>(
+  selection: RowSelection<T>,
+  dataSource: DataSource<T>,
+  idField: string,
+  options?: FetchAllPagesOptions
+): Promise<T[]> {
+  if (selection.mode === "ids") {
+    return selection.rows;
+  }
+  const rows = await fetchAllPages(dataSource, selection.query, options);
+  return rows.filter((row) => !selection.excludedIds.includes((row as any)[idField]));
+}
@@ -0,0 +1,93 @@
+/**
+ * Server Validation Errors
+ *
+ * Extracts field errors from Spring error responses so they can be shown
+ * next to the matching form inputs. Supported shapes:
+ * - DefaultErrorAttributes / MethodArgumentNotValidException:
+ *   { errors: [{ field, defaultMessage }] }
+ * - ProblemDetail with properties:
+ *   { detail, errors | fieldErrors | invalidParams | "invalid-params": [{ field | name, message | reason }] }
+ * - Maps: { errors | fieldErrors: { field: message | message[] } }
+ */
+
+import { Field } from "../types/field.types";
+
+export interface ServerValidationErrors {
+  /** Messages by form field name */
+  fieldErrors: Record<string, string>;
+  /** Errors not attached to a known field (global errors, unknown fields) */
+  formErrors: string[];
+}
+
+const FIELD_ERROR_KEYS = ["errors", "fieldErrors", "invalidParams", "invalid-params"];
+
+const toText = (value: unknown): string =>
+  Array.isArray(value) ? value.map(String).join(", ") : String(value);
+
+/**
+ * Normalize the supported error list/map shapes into [path, message] pairs (path "" = global)
+ */
+function collectEntries(body: any): [string, string][] {
+  const entries: [string, string][] = [];
+
+  FIELD_ERROR_KEYS.forEach((key) => {
+    const value = body[key];
+    if (Array.isArray(value)) {
+      value.forEach((item) => {
+        if (typeof item === "string") {
+          entries.push(["", item]);
+        } else if (item && typeof item === "object") {
+          const path = item.field ?? item.name ?? item.pointer ?? "";
+          const message =
+            item.defaultMessage ?? item.message ?? item.reason ?? item.detail ?? "Invalid value";
+          entries.push([String(path).replace(/^#?\//, "").replace(/\//g, "."), String(message)]);
+        }
+      });
+    } else if (value && typeof value === "object") {
+      Object.entries(value).forEach(([path, message]) => entries.push([path, toText(message)]));
+    }
+  });
+
+  if (Array.isArray(body.globalErrors)) {
+    body.globalErrors.forEach((item: any) =>
+      entries.push(["", typeof item === "string" ? item : item?.defaultMessage ?? item?.message])
+    );
+  }
+
+  return entries.filter(([, message]) => !!message);
+}
+
+/**
+ * Map a rejected save (e.g. DataSourceError with a 400 body) to form fields.
+ * Server paths are matched against each field's accessor and name.
+ */
+export function parseServerValidationErrors(
+  error: unknown,
+  fields: Field[]
+): ServerValidationErrors {
+  const result: ServerValidationErrors = { fieldErrors: {}, formErrors: [] };
+  const body = (error as any)?.body;
+
+  const entries = body && typeof body === "object" ? collectEntries(body) : [];
+
+  entries.forEach(([path, message]) => {
+    const field = path
+      ? fields.find((f) => (f.accessor || f.name) === path || f.name === path)
+      : undefined;
+    if (field) {
+      // Keep the first message per field, like client-side validation
+      if (!result.fieldErrors[field.name]) {
+        result.fieldErrors[field.name] = message;
+      }
+    } else {
+      result.formErrors.push(path ? `${path}: ${message}` : message);
+    }
+  });
+
+  // Without field details, fall back to the error's own message
+  if (entries.length === 0) {
+    result.formErrors.push(error instanceof Error ? error.message : "Failed to save record");
+  }
+
+  return result;
+}
@@ -0,0 +1,163 @@
+/**
+ * Upload Utilities
+ *
+ * File checks for ImageField (maxSize, allowedTypes) and the default
+ * multipart upload handler (XMLHttpRequest, for progress events).
+ */
+
+import { UploadHandler, UploadHandlers, UploadOptions } from "../types/upload.types";
+
+/**
+ * Error raised by an upload (rejected file, HTTP failure, aborted request)
+ */
+export class UploadError extends Error {
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = "UploadError";
+    this.status = status;
+  }
+}
+
+const formatSize = (bytes: number): string =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.round(bytes / 1024)} KB`;
+
+/**
+ * Check a file against maxSize and allowedTypes (supports wildcards like "image/*").
+ * Returns an error message, or null when the file is accepted.
+ */
+export function validateUploadFile(
+  file: File,
+  constraints: { maxSize?: number; allowedTypes?: string[] }
+): string | null {
+  const { maxSize, allowedTypes } = constraints;
+  if (allowedTypes && allowedTypes.length > 0) {
+    const allowed = allowedTypes.some((type) =>
+      type.endsWith("/*") ? file.type.startsWith(type.slice(0, -1)) : file.type === type
+    );
+    if (!allowed) {
+      return `File type ${file.type || "unknown"} is not allowed (${allowedTypes.join(", ")})`;
+    }
+  }
+  if (maxSize !== undefined && file.size > maxSize) {
+    return `File is too large (${formatSize(file.size)}, max ${formatSize(maxSize)})`;
+  }
+  return null;
+}
+
+/**
+ * Pick the handler for an ImageField's uploadConfig, falling back to "default"
+ */
+export function resolveUploadHandler(
+  handlers: UploadHandlers | undefined,
+  uploadConfig: string
+): UploadHandler | undefined {
+  return handlers?.[uploadConfig] || handlers?.default;
+}
+
+export interface XhrUploadHandlerOptions {
+  /** Multipart field name of the file (default: "file") */
+  fieldName?: string;
+  /** Extra form fields sent with the file */
+  formData?: Record<string, string>;
+  /** Headers sent with the upload, or a (possibly async) function returning them */
+  headers?: Record<string, string> | (() => Record<string, string> | Promise<Record<string, string>>);
+  /** Send cookies with cross-origin uploads */
+  withCredentials?: boolean;
+  /** Read the URL from the response body (default: body.url, or the body itself when it is a string) */
+  getUrl?: (body: any) => string;
+}
+
+/**
+ * Uploads files as multipart/form-data POST requests
+ */
+export class XhrUploadHandler implements UploadHandler {
+  private readonly _url: string;
+  private readonly _options: XhrUploadHandlerOptions;
+
+  constructor(url: string, options: XhrUploadHandlerOptions = {}) {
+    this._url = url;
+    this._options = options;
+  }
+
+  async upload(file: File, options: UploadOptions = {}): Promise<string> {
+    const { onProgress, signal } = options;
+    const headers =
+      typeof this._options.headers === "function"
+        ? await this._options.headers()
+        : this._options.headers || {};
+
+    const body = new FormData();
+    body.append(this._options.fieldName || "file", file);
+    Object.entries(this._options.formData || {}).forEach(([key, value]) =>
+      body.append(key, value)
+    );
+
+    return new Promise<string>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new UploadError("Upload cancelled"));
+        return;
+      }
+
+      const xhr = new XMLHttpRequest();
+      xhr.open("POST", this._url);
+      xhr.withCredentials = !!this._options.withCredentials;
+      Object.entries(headers).forEach(([key, value]) => xhr.setRequestHeader(key, value));
+
+      xhr.upload.onprogress = (event) => {
+        if (event.lengthComputable && onProgress) {
+          onProgress(Math.round((event.loaded / event.total) * 100));
+        }
+      };
+
+      xhr.onload = () => {
+        let response: any = xhr.responseText;
+        try {
+          response = JSON.parse(xhr.responseText);
+        } catch {
+          // Plain text response (e.g. the URL itself)
+        }
+        if (xhr.status < 200 || xhr.status >= 300) {
+          const message =
+            (response && typeof response === "object" && (response.message || response.detail)) ||
+            `Upload failed with status ${xhr.status}`;
+          reject(new UploadError(message, xhr.status));
+          return;
+        }
+        const url = this._options.getUrl
+          ? this._options.getUrl(response)
+          : typeof response === "string"
+            ? response
+            : response?.url;
+        if (!url) {
+          reject(new UploadError("Upload response did not contain a URL", xhr.status));
+          return;
+        }
+        onProgress?.(100);
+        resolve(url);
+      };
+
+      xhr.onerror = () => reject(new UploadError("Network error during upload"));
+      xhr.onabort = () => reject(new UploadError("Upload cancelled"));
+      const abort = () => xhr.abort();
+      signal?.addEventListener("abort", abort, { once: true });
+      // The signal may outlive the request (e.g. shared by several uploads)
+      xhr.onloadend = () => signal?.removeEventListener("abort", abort);
+
+      xhr.send(body);
+    });
+  }
+}
+
+/**
+ * Create a new XhrUploadHandler instance
+ */
+export function createXhrUploadHandler(
+  url: string,
+  options?: XhrUploadHandlerOptions
+): XhrUploadHandler {
+  return new XhrUploadHandler(url, options);
+}
@@ -0,0 +1,198 @@
+/**
+ * Validation Utilities
+ *
+ * Builds zod schemas from the validation rules declared on fields.
+ * Records are keyed by field name, like the Form's data.
+ */
+
+import { z } from "zod";
+import { Field, ValidationRule, ValidationRules } from "../types/field.types";
+import { getEnumValues } from "./enum-values";
+
+/**
+ * Record of field name to the first error message for that field
+ */
+export type ValidationErrors = Record<string, string>;
+
+const ruleValue = <V>(rule: ValidationRule<V>): V =>
+  typeof rule === "object" && rule !== null && "value" in rule ? rule.value : (rule as V);
+
+const ruleMessage = <V>(rule: ValidationRule<V>, fallback: string): string =>
+  typeof rule === "object" && rule !== null && "message" in rule ? rule.message : fallback;
+
+const isEmpty = (value: unknown): boolean =>
+  value === undefined || value === null || value === "";
+
+/**
+ * Turn a validator result into an error message (or null when valid)
+ */
+const toMessage = (result: string | boolean | undefined, fallback: string): string | null =>
+  typeof result === "string" ? result : result === false ? fallback : null;
+
+/**
+ * Schema of a single field's value (type, required, min/max, length, pattern, custom validator).
+ * Cross-field rules need the record and are applied by buildFormSchema.
+ */
+export function buildFieldSchema(field: Field): z.ZodTypeAny {
+  // Widened: the Field union would intersect the validators' value types to never
+  const rules: ValidationRules = field.validation || {};
+  let schema: z.ZodTypeAny;
+
+  switch (field.type) {
+    case "Integer":
+    case "DateSec":
+    case "DateTimeSec": {
+      let numberSchema = z.number({ invalid_type_error: `${field.title} must be a number` });
+      if (field.type === "Integer") {
+        numberSchema = numberSchema.int(`${field.title} must be a whole number`);
+      }
+      if (rules.min !== undefined) {
+        numberSchema = numberSchema.min(
+          ruleValue(rules.min),
+          ruleMessage(rules.min, `${field.title} must be at least ${ruleValue(rules.min)}`)
+        );
+      }
+      if (rules.max !== undefined) {
+        numberSchema = numberSchema.max(
+          ruleValue(rules.max),
+          ruleMessage(rules.max, `${field.title} must be at most ${ruleValue(rules.max)}`)
+        );
+      }
+      schema = numberSchema;
+      break;
+    }
+
+    case "Boolean":
+      schema = z.boolean();
+      break;
+
+    case "Enum": {
+      // Keys are strings, but APIs often send numeric enum values.
+      // Remote values are only checked once loaded (the picker offers valid keys anyway).
+      schema = z.union([z.string(), z.number()]).refine(
+        (value) => {
+          const labels = getEnumValues(field)?.labels;
+          return !labels || String(value) in labels;
+        },
+        { message: `Select a valid ${field.title}` }
+      );
+      break;
+    }
+
+    case "Relation":
+      schema = z.union([z.string(), z.number()]);
+      break;
+
+    default: {
+      let stringSchema = z.string();
+      if (rules.minLength !== undefined) {
+        stringSchema = stringSchema.min(
+          ruleValue(rules.minLength),
+          ruleMessage(
+            rules.minLength,
+            `${field.title} must be at least ${ruleValue(rules.minLength)} characters`
+          )
+        );
+      }
+      if (rules.maxLength !== undefined) {
+        stringSchema = stringSchema.max(
+          ruleValue(rules.maxLength),
+          ruleMessage(
+            rules.maxLength,
+            `${field.title} must be at most ${ruleValue(rules.maxLength)} characters`
+          )
+        );
+      }
+      if (rules.pattern !== undefined) {
+        stringSchema = stringSchema.regex(
+          ruleValue(rules.pattern),
+          ruleMessage(rules.pattern, `${field.title} has an invalid format`)
+        );
+      }
+      schema = stringSchema;
+    }
+  }
+
+  if (rules.validate) {
+    const validate = rules.validate;
+    schema = schema.superRefine((value, ctx) => {
+      const message = toMessage(validate(value), `${field.title} is invalid`);
+      if (message) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+      }
+    });
+  }
+
+  // Empty values skip the rules above and only fail when the field is required
+  const requiredMessage =
+    typeof rules.required === "string" ? rules.required : `${field.title} is required`;
+  return z.any().superRefine((value, ctx) => {
+    if (isEmpty(value)) {
+      if (rules.required) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: requiredMessage });
+      }
+      return;
+    }
+    const result = schema.safeParse(value);
+    if (!result.success) {
+      result.error.issues.forEach((issue) => ctx.addIssue({ ...issue, path: [] }));
+    }
+  });
+}
+
+/**
+ * Schema of a whole record built from the fields' rules, including cross-field rules.
+ * Values of other (non-validated) properties pass through untouched.
+ */
+export function buildFormSchema(fields: Field[]) {
+  const shape = fields.reduce((acc, field) => {
+    acc[field.name] = buildFieldSchema(field);
+    return acc;
+  }, {} as Record<string, z.ZodTypeAny>);
+
+  return z
+    .object(shape)
+    .passthrough()
+    .superRefine((record, ctx) => {
+      fields.forEach((field) => {
+        const crossField = (field.validation as ValidationRules | undefined)?.crossField;
+        // Like the other rules, empty values are only checked by "required"
+        if (!crossField || isEmpty(record[field.name])) return;
+        const message = toMessage(
+          crossField(record[field.name], record),
+          `${field.title} is invalid`
+        );
+        if (message) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: [field.name] });
+        }
+      });
+    });
+}
+
+/**
+ * Validate a record, returning the first error message per field
+ */
+export function validateRecord(schema: z.ZodTypeAny, record: any): ValidationErrors {
+  const result = schema.safeParse(record || {});
+  if (result.success) {
+    return {};
+  }
+  return result.error.issues.reduce((acc, issue) => {
+    const key = String(issue.path[0] ?? "");
+    if (key && !acc[key]) {
+      acc[key] = issue.message;
+    }
+    return acc;
+  }, {} as ValidationErrors);
+}
+
+/**
+ * Validate a single field value in the context of its record (used by inline editing)
+ */
+export function validateField(field: Field, value: any, record: any): string | null {
+  const errors = validateRecord(buildFormSchema([field]), {
+    ...(record || {}),
+    [field.name]: value,
+  });
+  return errors[field.name] || null;
+}
@@ -0,0 +1,42 @@
+/**
+ * View Storage
+ *
+ * Default ViewStorage implementation backed by localStorage.
+ * Views are stored as a JSON array under "{prefix}{tableId}".
+ */
+
+import { SavedView, ViewStorage } from "../types/view.types";
+
+const DEFAULT_PREFIX = "dynamicQueryTable.views.";
+
+export class LocalStorageViewStorage implements ViewStorage {
+  private readonly _prefix: string;
+
+  constructor(prefix: string = DEFAULT_PREFIX) {
+    this._prefix = prefix;
+  }
+
+  load(tableId: string): SavedView[] {
+    if (typeof window === "undefined") return [];
+    try {
+      const saved = window.localStorage.getItem(this._prefix + tableId);
+      const views = saved ? JSON.parse(saved) : [];
+      return Array.isArray(views) ? (views as SavedView[]) : [];
+    } catch {
+      // Corrupt or inaccessible storage behaves like no saved views
+      return [];
+    }
+  }
+
+  save(tableId: string, views: SavedView[]): void {
+    if (typeof window === "undefined") return;
+    window.localStorage.setItem(this._prefix + tableId, JSON.stringify(views));
+  }
+}
+
+/**
+ * Create a new LocalStorageViewStorage instance
+ */
+export function createLocalStorageViewStorage(prefix?: string): LocalStorageViewStorage {
+  return new LocalStorageViewStorage(prefix);
+}